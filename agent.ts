@@ -1,33 +1,36 @@
 import { z } from "zod";
+import { modelRegistry, type ModelRegistry } from "./model.js";
+import { ToolRegistry, toolRegistry, checkConcurrencyLimit, executeToolCalls } from "./tools.js";
+import type { Checkpointer } from "./checkpoint.js";
+import { appendMessages, getReducers, reduceState, reducerRegistry, unwrapUpdate } from "./reducers.js";
+import { AIMessage, BaseMessage, isAIMessage, isToolMessage } from "./messages.js";
+import type { Tokenizer } from "./tokenizer.js";
+import { addTokenUsage, estimateTokenUsage, type TokenEstimator } from "./usage.js";
+import { createCostLedger, pricingTable, recordCost, type CostLedger, type CostSummary, type PricingTable } from "./pricing.js";
 
-// Base message class for chat
-export class BaseMessage {
-    constructor(
-        public role: 'user' | 'assistant' | 'system',
-        public content: string
-    ) {}
-}
-
-export class ToolMessage extends BaseMessage {
-    type = 'tool';
-    name = 'tool name';
-    content = '';
-}
-
-export class AssistantMessage extends BaseMessage {
-    type = 'assistant';
-    content = '';
-}
-
-export class UserMessage extends BaseMessage {
-    type = 'user';
-    content = '';
-}
-
-export class AIMessage extends BaseMessage {
-    type = 'ai';
-    content = '';
-}
+export {
+    AIMessage,
+    AssistantMessage,
+    BaseMessage,
+    SystemMessage,
+    ToolMessage,
+    UserMessage,
+    getMessageText,
+    isAIMessage,
+    isSystemMessage,
+    isToolMessage,
+    isUserMessage,
+    type AIMessageFields,
+    type ContentBlock,
+    type ImageBlock,
+    type MessageContent,
+    type MessageFields,
+    type MessageRole,
+    type TextBlock,
+    type ToolMessageFields,
+    type ToolResultBlock,
+    type ToolUseBlock,
+} from "./messages.js";
 
 // Tool-related types
 export interface ToolCall {
@@ -36,16 +39,158 @@ export interface ToolCall {
     args: Record<string, any>;
 }
 
+/**
+ * Why a tool call failed:
+ * - `validation`: the arguments didn't match the tool's schema (or the tool doesn't exist)
+ * - `timeout`: the tool didn't finish in time
+ * - `network`: the tool couldn't reach a service it depends on
+ * - `permission`: the tool isn't allowed to do what was asked
+ * - `tool-thrown`: the tool threw an error that doesn't fit any other kind
+ * - `unknown`: something that isn't an `Error` was thrown
+ */
+export type ToolErrorKind = 'validation' | 'timeout' | 'network' | 'permission' | 'tool-thrown' | 'unknown';
+
+export interface ToolErrorDetails {
+    kind: ToolErrorKind;
+    message: string;
+    /** Whether calling the tool again with the same arguments may succeed */
+    retryable: boolean;
+    /** Schema issues of `validation` errors */
+    issues?: z.core.$ZodIssue[];
+}
+
 export interface ToolResult {
+    /** Id of the `ToolCall` this is the result of */
     id: string;
+    /** Name of the tool that was called */
+    name: string;
     result: any;
+    /** Set instead of `result` when the arguments were invalid or the tool failed */
     error?: string;
+    /** Typed description of `error`, middlewares should branch on this */
+    errorDetails?: ToolErrorDetails;
 }
 
+/**
+ * Executes a tool call, handed to `wrapToolCall`. It never throws, failures
+ * are reported as `error` and `errorDetails` of the result.
+ */
+export type ToolCallHandler = (toolCall: ToolCall) => Promise<ToolResult>;
+
 // Language model and tool types
-export type LanguageModelLike = any; // Placeholder for actual language model type
-export type ClientTool = any; // Placeholder for client tool type
-export type ServerTool = any; // Placeholder for server tool type
+
+/**
+ * A tool executed by the agent. The model sees its name, description and
+ * schema, the tools node calls `invoke` with the arguments the model chose.
+ * Tools created with LangChain's `tool()` satisfy this interface.
+ */
+export interface ClientTool {
+    name: string;
+    description?: string;
+    schema?: z.ZodType | Record<string, unknown>;
+    invoke(args: any, config?: any): Promise<any>;
+    /**
+     * Maximum number of calls of this tool running at the same time (default: unlimited)
+     */
+    maxConcurrency?: number;
+    /**
+     * Run calls of this tool one at a time and never alongside other tool calls,
+     * for tools with side effects that must not overlap
+     */
+    sequential?: boolean;
+}
+
+/**
+ * A tool executed by the model provider (e.g. web search). It is passed to
+ * the model as-is and never run by the agent.
+ */
+export interface ServerTool {
+    type: string;
+    name?: string;
+    [key: string]: unknown;
+}
+
+/**
+ * Tool choice configuration (model-specific format).
+ * Can be one of:
+ * - `"auto"`: means the model can pick between generating a message or calling one or more tools.
+ * - `"none"`: means the model will not call any tool and instead generates a message.
+ * - `"required"`: means the model must call one or more tools.
+ * - `{ type: "function", function: { name: string } }`: The model will use the specified function.
+ */
+export type ToolChoice =
+    | "auto"
+    | "none"
+    | "required"
+    | { type: "function"; function: { name: string } };
+
+// Token counts reported by a model
+export interface TokenUsage {
+    inputTokens: number;
+    outputTokens: number;
+    totalTokens: number;
+    /** Input tokens read from the provider's prompt cache, part of `inputTokens` */
+    cacheReadTokens?: number;
+    /** Input tokens written to the provider's prompt cache, part of `inputTokens` */
+    cacheWriteTokens?: number;
+    /** Output tokens spent on reasoning, part of `outputTokens` */
+    reasoningTokens?: number;
+    /** Set when the counts were estimated locally because the provider reported none */
+    estimated?: boolean;
+}
+
+/**
+ * Everything a model needs for a single call, as prepared by the agent loop.
+ */
+export interface ModelRequest {
+    messages: BaseMessage[];
+    systemMessage?: string;
+    tools: (ClientTool | ServerTool)[];
+    toolChoice: ToolChoice;
+}
+
+/**
+ * What a model returns for a single call: the assistant message to append
+ * to the conversation, the tool calls it requested and, if the provider
+ * reports it, the token usage of the call.
+ */
+export interface ModelResponse {
+    message: AIMessage;
+    toolCalls: ToolCall[];
+    usage?: TokenUsage;
+}
+
+/**
+ * Per-call options the agent passes to a model.
+ */
+export interface ModelCallOptions {
+    /**
+     * Called with each piece of text as the model generates it. Models that
+     * can't stream may call it once with the full text or not at all.
+     */
+    onChunk?: (content: string) => void;
+    /**
+     * Aborted when the run is stopped, e.g. because the consumer of
+     * `agent.stream()` stopped iterating. Models should cancel the request.
+     */
+    signal?: AbortSignal;
+}
+
+/**
+ * Adapter contract every language model has to implement to be used by an agent.
+ * Models can also be referenced by id (e.g. `"openai:gpt-4o"`), see `ModelRegistry`.
+ */
+export interface LanguageModelLike {
+    /**
+     * Provider-qualified id of the model, e.g. `"openai:gpt-4o"`.
+     */
+    readonly modelId: string;
+    /**
+     * Tokenizer of the model, overrides the one registered in `tokenizerRegistry`.
+     */
+    readonly tokenizer?: Tokenizer;
+    invoke(request: ModelRequest, options?: ModelCallOptions): Promise<ModelResponse>;
+}
 
 /**
  * Configuration for modifying a model call at runtime.
@@ -53,9 +198,10 @@ export type ServerTool = any; // Placeholder for server tool type
  */
 export interface PreparedCall {
     /**
-     * The model to use for this step.
+     * The model to use for this step, either an instance or an id resolved
+     * through the agent's model registry (e.g. `"openai:gpt-4o-mini"`).
      */
-    model?: LanguageModelLike;
+    model?: string | LanguageModelLike;
     /**
      * The messages to send to the model.
      */
@@ -65,18 +211,9 @@ export interface PreparedCall {
      */
     systemMessage?: string;
     /**
-     * Tool choice configuration (model-specific format).
-     * Can be one of:
-     * - `"auto"`: means the model can pick between generating a message or calling one or more tools.
-     * - `"none"`: means the model will not call any tool and instead generates a message.
-     * - `"required"`: means the model must call one or more tools.
-     * - `{ type: "function", function: { name: string } }`: The model will use the specified function.
+     * Tool choice configuration, see `ToolChoice`.
      */
-    toolChoice?:
-        | "auto"
-        | "none"
-        | "required"
-        | { type: "function"; function: { name: string } };
+    toolChoice?: ToolChoice;
 
     /**
      * The tools to make available for this step.
@@ -85,37 +222,220 @@ export interface PreparedCall {
     tools?: (string | ClientTool | ServerTool)[];
 }
 
+/**
+ * Calls the model with a prepared call, handed to `wrapModelCall`. Model ids
+ * and tool names in the call are resolved through the agent's registries.
+ */
+export type ModelCallHandler = (request: PreparedCall) => Promise<ModelResponse>;
+
 // Runtime information (readonly)
 export interface Runtime<TContext = any> {
+    /**
+     * Tool calls requested by the most recent model response.
+     */
     readonly toolCalls: ToolCall[];
+    /**
+     * Results of the most recent tools step.
+     */
     readonly toolResults: ToolResult[];
-    readonly tokenUsage: {
-        readonly inputTokens: number;
-        readonly outputTokens: number;
-        readonly totalTokens: number;
-    };
+    /**
+     * Token usage of all model calls made so far in this run.
+     */
+    readonly tokenUsage: Readonly<TokenUsage>;
+    /**
+     * Token usage of the most recent model call, undefined before the first one.
+     */
+    readonly lastCallUsage?: Readonly<TokenUsage>;
+    /**
+     * Cost of the model calls made so far in this run, see `createAgent({ pricing })`.
+     */
+    readonly cost: Readonly<CostLedger>;
+    /**
+     * Cost of all model calls of the thread, including earlier runs. Same as
+     * `cost` for runs without a `threadId`.
+     */
+    readonly threadCost: Readonly<CostLedger>;
     readonly context: TContext;
+    /**
+     * Number of model calls made so far in this run.
+     */
     readonly currentIteration: number;
+    /**
+     * Value passed to `Command.resume()` when continuing an interrupted run.
+     * Only set for the hook of the middleware that called `controls.interrupt()`.
+     */
+    readonly resumeValue?: unknown;
+}
+
+// Internal, writable view of the runtime that the agent loop keeps up to date
+type MutableRuntime<TContext> = {
+    -readonly [K in keyof Runtime<TContext>]: Runtime<TContext>[K];
+};
+
+/**
+ * Configurations for retry call (see below for details)
+ */
+export interface RetryOptions {
+    /** Reason for retry (for logging) */
+    reason?: string;
+    /** Maximum retry attempts (default: 3) */
+    maxAttempts?: number;
+    /** Which node to retry from (default: current node) */
+    retryFrom?: "before_model" | "after_model" | "before_tools" | "tools" | "after_tools";
 }
 
 // Control flow interface
 export interface Controls<TState = any> {
+    /**
+     * Applies `stateUpdate`, skips the remaining hooks of the current node and
+     * continues the run at `target`. A jump to `'tools'` still passes the
+     * `beforeTools` hooks (e.g. approval gates), unless it is made from one of
+     * them, and requires tool calls of the latest model response that haven't
+     * run yet.
+     */
     jumpTo(target: 'model' | 'tools', stateUpdate?: Partial<TState>): ControlAction;
+    /**
+     * Ends the run. A partial state is merged into the final state returned by
+     * `invoke`, an `Error` makes `invoke` reject with it.
+     */
     terminate(result?: Partial<TState> | Error): ControlAction;
+    /**
+     * Applies `stateUpdate` and re-runs a node. The runtime counts consecutive
+     * retries requested by the same middleware hook; once `maxAttempts` is
+     * exceeded the request (including its state update) is ignored and the run
+     * continues as if the hook had returned nothing.
+     */
+    retry(options?: RetryOptions, stateUpdate?: Partial<TState>): ControlAction;
+    /**
+     * Pauses the run, e.g. to ask a person for approval. `invoke` returns the
+     * state with `payload` in `__interrupt__`, and the thread's checkpoint
+     * remembers where the run stopped. `invoke(Command.resume(value), context,
+     * { threadId })` runs the interrupted hook again with `value` in
+     * `runtime.resumeValue`. Requires a checkpointer and a `threadId`.
+     */
+    interrupt(payload?: unknown): ControlAction;
 }
 
 // Control action type
 export type ControlAction = {
-    type: 'jump' | 'terminate' | 'retry';
+    type: 'jump' | 'terminate' | 'retry' | 'interrupt';
     target?: string;
     stateUpdate?: any;
     result?: any;
     error?: Error;
+    retryOptions?: RetryOptions;
+    payload?: unknown;
 };
 
+// Middleware hooks that can update the state and control the run
+export type MiddlewareHook = 'beforeModel' | 'afterModel' | 'beforeTools' | 'afterTools';
+
+/**
+ * A run paused by `controls.interrupt()`.
+ */
+export interface Interrupt<TPayload = unknown> {
+    /** Name of the middleware that interrupted the run */
+    middleware: string;
+    /** Hook that interrupted the run, it runs again when the run is resumed */
+    hook: MiddlewareHook;
+    /** Value passed to `controls.interrupt()`, e.g. what to ask the user */
+    payload: TPayload;
+}
+
+/**
+ * Input of `invoke` and `stream` that continues an interrupted thread
+ * instead of starting a new run.
+ *
+ * @example
+ * const result = await agent.invoke({ messages }, context, { threadId });
+ * if (result.__interrupt__) {
+ *     await agent.invoke(Command.resume(true), context, { threadId });
+ * }
+ */
+export class Command<TResume = unknown> {
+    private constructor(readonly resume: TResume) {}
+
+    /**
+     * Resumes the interrupted run, `value` is handed to the middleware that
+     * interrupted it as `runtime.resumeValue`.
+     */
+    static resume<TResume>(value: TResume): Command<TResume> {
+        return new Command(value);
+    }
+}
+
+/**
+ * Final state of a run. `__interrupt__` is set when a middleware interrupted
+ * the run, which is then waiting to be resumed with `Command.resume()`.
+ * `__cost__` holds the cost of the run and of its thread.
+ */
+export type AgentResult<TState> = TState & {
+    __interrupt__?: Interrupt;
+    __cost__: CostSummary;
+};
+
+// Actions created by `Controls`, used to tell them apart from plain state updates
+const controlActions = new WeakSet<ControlAction>();
+
+function isControlAction(result: unknown): result is ControlAction {
+    return typeof result === 'object' && result !== null && controlActions.has(result as ControlAction);
+}
+
+// Helper to create the controls handed to middleware hooks
+function createControls<TState>(): Controls<TState> {
+    const track = (action: ControlAction) => {
+        controlActions.add(action);
+        return action;
+    };
+
+    return {
+        jumpTo: (target, stateUpdate) => track({ type: 'jump', target, stateUpdate }),
+        terminate: (result) => track(
+            result instanceof Error
+                ? { type: 'terminate', error: result }
+                : { type: 'terminate', result }
+        ),
+        retry: (options = {}, stateUpdate) => track({ type: 'retry', stateUpdate, retryOptions: options }),
+        interrupt: (payload) => track({ type: 'interrupt', payload }),
+    };
+}
+
 // Middleware result type
 export type MiddlewareResult<TState> = TState | ControlAction | void;
 
+/**
+ * Thrown when a middleware hook returns a state update that doesn't match the
+ * middleware's `stateSchema`, including keys the schema doesn't define.
+ */
+export class MiddlewareStateError extends Error {
+    readonly issues: z.core.$ZodIssue[];
+
+    constructor(
+        public readonly middleware: string,
+        public readonly hook: MiddlewareHook,
+        error: z.ZodError
+    ) {
+        super(`Invalid state update returned by ${middleware}.${hook}:\n${z.prettifyError(error)}`);
+        this.name = 'MiddlewareStateError';
+        this.issues = error.issues;
+    }
+}
+
+/**
+ * Thrown when a run executes more nodes than the agent's `recursionLimit`,
+ * e.g. because the model keeps calling tools or a middleware keeps jumping.
+ */
+export class RecursionLimitError extends Error {
+    constructor(public readonly limit: number) {
+        super(
+            `Agent run exceeded the recursion limit of ${limit} nodes without finishing. ` +
+            'Check for a model that keeps calling tools or a middleware that keeps jumping, ' +
+            'or raise `createAgent({ recursionLimit })`.'
+        );
+        this.name = 'RecursionLimitError';
+    }
+}
+
 // Base middleware interface with unified state
 export interface IMiddleware<
     TSchema extends z.ZodObject<z.ZodRawShape> | undefined = undefined,
@@ -125,6 +445,27 @@ export interface IMiddleware<
     stateSchema?: TSchema;
     contextSchema?: TContextSchema;
     name: string;
+    /**
+     * Whether state updates returned by the hooks are validated against
+     * `stateSchema` (default: true). Disable it for hooks on hot paths.
+     */
+    validateState?: boolean;
+    /**
+     * Position of the middleware in the agent, higher priorities run first
+     * (default: 0). Middlewares with the same priority keep their order in
+     * `middlewares`.
+     */
+    priority?: number;
+    /**
+     * Names of middlewares this middleware has to run before, constraints on
+     * middlewares that aren't part of the agent are ignored.
+     */
+    before?: string[];
+    /**
+     * Names of middlewares this middleware has to run after, e.g.
+     * `['SummarizationMiddleware']`.
+     */
+    after?: string[];
     /**
      * Runs before each LLM call, can modify call parameters, changes are not persistent
      * e.g. if you change `model`, it will only be changed for the next model call
@@ -132,7 +473,7 @@ export interface IMiddleware<
      * @param options - Current call options (can be modified by previous middleware)
      * @param state - Current state (read-only in this phase)
      * @param runtime - Runtime context and metadata
-     * @returns Modified options or undefined to pass through
+     * @returns Options to override (merged into the current ones) or undefined to pass through
      */
     prepareCall?(
         options: PreparedCall,
@@ -149,6 +490,61 @@ export interface IMiddleware<
         runtime: Runtime<TFullContext>, 
         controls: Controls<(TSchema extends z.ZodObject<any> ? z.infer<TSchema> : {}) & AgentBuiltInState>
     ): Promise<MiddlewareResult<Partial<TSchema extends z.ZodObject<any> ? z.infer<TSchema> : {}>>>;
+    /**
+     * Runs before the tool calls of a model response are executed,
+     * `runtime.toolCalls` holds the calls about to run.
+     */
+    beforeTools?(
+        state: (TSchema extends z.ZodObject<any> ? z.infer<TSchema> : {}) & AgentBuiltInState,
+        runtime: Runtime<TFullContext>, 
+        controls: Controls<(TSchema extends z.ZodObject<any> ? z.infer<TSchema> : {}) & AgentBuiltInState>
+    ): Promise<MiddlewareResult<Partial<TSchema extends z.ZodObject<any> ? z.infer<TSchema> : {}>>>;
+    /**
+     * Runs after the tool calls were executed, `runtime.toolResults` holds
+     * their results.
+     */
+    afterTools?(
+        state: (TSchema extends z.ZodObject<any> ? z.infer<TSchema> : {}) & AgentBuiltInState,
+        runtime: Runtime<TFullContext>, 
+        controls: Controls<(TSchema extends z.ZodObject<any> ? z.infer<TSchema> : {}) & AgentBuiltInState>
+    ): Promise<MiddlewareResult<Partial<TSchema extends z.ZodObject<any> ? z.infer<TSchema> : {}>>>;
+    /**
+     * Wraps the execution of each tool call. Call `handler` to run the tool
+     * (or the next middleware's wrapper), possibly with rewritten arguments,
+     * or return a result without calling it. Wrappers nest in the order of
+     * `middlewares`, the first middleware is the outermost one.
+     *
+     * @param toolCall - The tool call to execute
+     * @param handler - Executes a tool call, never throws
+     * @param state - State when the tools node started
+     * @param runtime - Runtime context and metadata
+     * @returns The result recorded for the tool call
+     */
+    wrapToolCall?(
+        toolCall: ToolCall,
+        handler: ToolCallHandler,
+        state: (TSchema extends z.ZodObject<any> ? z.infer<TSchema> : {}) & AgentBuiltInState,
+        runtime: Runtime<TFullContext>
+    ): Promise<ToolResult>;
+    /**
+     * Wraps each model call. Receives the call as prepared by all `prepareCall`
+     * hooks; call `handler` to invoke the model (or the next middleware's
+     * wrapper), possibly with a changed request, call it again, or return a
+     * response without calling it. Wrappers nest in the order of `middlewares`,
+     * the first middleware is the outermost one.
+     *
+     * @param request - The prepared model call
+     * @param handler - Calls the model with a request
+     * @param state - Current state (read-only in this phase)
+     * @param runtime - Runtime context and metadata
+     * @returns The response appended to the conversation
+     */
+    wrapModelCall?(
+        request: PreparedCall,
+        handler: ModelCallHandler,
+        state: (TSchema extends z.ZodObject<any> ? z.infer<TSchema> : {}) & AgentBuiltInState,
+        runtime: Runtime<TFullContext>
+    ): Promise<ModelResponse>;
 }
 
 // createMiddleware with automatic schema inference
@@ -160,6 +556,10 @@ export function createMiddleware<
         name: string;
         stateSchema?: TSchema;
         contextSchema?: TContextSchema;
+        validateState?: boolean;
+        priority?: number;
+        before?: string[];
+        after?: string[];
         prepareCall?: (
             options: PreparedCall,
             state: (TSchema extends z.ZodObject<any> ? z.infer<TSchema> : {}) & AgentBuiltInState,
@@ -175,6 +575,28 @@ export function createMiddleware<
             runtime: Runtime<TContextSchema extends z.ZodObject<any> ? z.infer<TContextSchema> : {}>,
             controls: Controls<(TSchema extends z.ZodObject<any> ? z.infer<TSchema> : {}) & AgentBuiltInState>
         ) => Promise<MiddlewareResult<Partial<TSchema extends z.ZodObject<any> ? z.infer<TSchema> : {}>>> | MiddlewareResult<Partial<TSchema extends z.ZodObject<any> ? z.infer<TSchema> : {}>>;
+        beforeTools?: (
+            state: (TSchema extends z.ZodObject<any> ? z.infer<TSchema> : {}) & AgentBuiltInState,
+            runtime: Runtime<TContextSchema extends z.ZodObject<any> ? z.infer<TContextSchema> : {}>,
+            controls: Controls<(TSchema extends z.ZodObject<any> ? z.infer<TSchema> : {}) & AgentBuiltInState>
+        ) => Promise<MiddlewareResult<Partial<TSchema extends z.ZodObject<any> ? z.infer<TSchema> : {}>>> | MiddlewareResult<Partial<TSchema extends z.ZodObject<any> ? z.infer<TSchema> : {}>>;
+        afterTools?: (
+            state: (TSchema extends z.ZodObject<any> ? z.infer<TSchema> : {}) & AgentBuiltInState,
+            runtime: Runtime<TContextSchema extends z.ZodObject<any> ? z.infer<TContextSchema> : {}>,
+            controls: Controls<(TSchema extends z.ZodObject<any> ? z.infer<TSchema> : {}) & AgentBuiltInState>
+        ) => Promise<MiddlewareResult<Partial<TSchema extends z.ZodObject<any> ? z.infer<TSchema> : {}>>> | MiddlewareResult<Partial<TSchema extends z.ZodObject<any> ? z.infer<TSchema> : {}>>;
+        wrapToolCall?: (
+            toolCall: ToolCall,
+            handler: ToolCallHandler,
+            state: (TSchema extends z.ZodObject<any> ? z.infer<TSchema> : {}) & AgentBuiltInState,
+            runtime: Runtime<TContextSchema extends z.ZodObject<any> ? z.infer<TContextSchema> : {}>
+        ) => Promise<ToolResult> | ToolResult;
+        wrapModelCall?: (
+            request: PreparedCall,
+            handler: ModelCallHandler,
+            state: (TSchema extends z.ZodObject<any> ? z.infer<TSchema> : {}) & AgentBuiltInState,
+            runtime: Runtime<TContextSchema extends z.ZodObject<any> ? z.infer<TContextSchema> : {}>
+        ) => Promise<ModelResponse> | ModelResponse;
     }
 ): IMiddleware<TSchema, TContextSchema, any>;
 
@@ -186,6 +608,19 @@ export function createMiddleware(config: any): any {
         contextSchema: config.contextSchema,
     };
     
+    if (config.validateState !== undefined) {
+        middleware.validateState = config.validateState;
+    }
+    if (config.priority !== undefined) {
+        middleware.priority = config.priority;
+    }
+    if (config.before) {
+        middleware.before = config.before;
+    }
+    if (config.after) {
+        middleware.after = config.after;
+    }
+    
     if (config.prepareCall) {
         middleware.prepareCall = async (options, state, runtime) => 
             Promise.resolve(config.prepareCall!(options, state, runtime));
@@ -201,6 +636,26 @@ export function createMiddleware(config: any): any {
             Promise.resolve(config.afterModel!(state, runtime, controls));
     }
     
+    if (config.beforeTools) {
+        middleware.beforeTools = async (state, runtime, controls) => 
+            Promise.resolve(config.beforeTools!(state, runtime, controls));
+    }
+    
+    if (config.afterTools) {
+        middleware.afterTools = async (state, runtime, controls) => 
+            Promise.resolve(config.afterTools!(state, runtime, controls));
+    }
+    
+    if (config.wrapToolCall) {
+        middleware.wrapToolCall = async (toolCall, handler, state, runtime) => 
+            Promise.resolve(config.wrapToolCall!(toolCall, handler, state, runtime));
+    }
+    
+    if (config.wrapModelCall) {
+        middleware.wrapModelCall = async (request, handler, state, runtime) => 
+            Promise.resolve(config.wrapModelCall!(request, handler, state, runtime));
+    }
+    
     return middleware;
 }
 
@@ -258,71 +713,116 @@ type InferMiddlewareStatesInput<T extends readonly any[]> = T extends readonly [
             : {}
     : {};
 
-// Helper type to extract keys from a Zod schema
-type ExtractZodKeys<T> = T extends z.ZodObject<infer Shape> ? keyof Shape : T extends undefined ? never : never;
+declare const sharedBrand: unique symbol;
 
-// Helper type to collect all context keys from middlewares
-type CollectContextKeys<T extends readonly any[], Acc = never> = T extends readonly [
-    infer First,
-    ...infer Rest
-]
-    ? First extends IMiddleware<any, infer ContextSchema, any>
-        ? ContextSchema extends z.ZodObject<any>
-            ? Rest extends readonly any[]
-                ? CollectContextKeys<Rest, Acc | ExtractZodKeys<ContextSchema>>
-                : Acc | ExtractZodKeys<ContextSchema>
-            : Rest extends readonly any[]
-                ? CollectContextKeys<Rest, Acc>
-                : Acc
-        : Rest extends readonly any[]
-            ? CollectContextKeys<Rest, Acc>
-            : Acc
-    : Acc;
+/**
+ * A context schema property marked with `shared()`.
+ */
+export type Shared<TSchema extends z.ZodType> = TSchema & { readonly [sharedBrand]: true };
+
+// Context schema properties marked with `shared()`
+const sharedSchemas = z.registry<{ shared: true }>();
 
-// Helper type to find duplicate keys
-type FindDuplicateKeys<T extends readonly any[], SeenKeys = never> = T extends readonly [
+/**
+ * Marks a context property that several middlewares (or the agent's own
+ * `contextSchema`) intend to read. Context property names have to be unique
+ * across all context schemas unless every definition of the property is
+ * shared, with the same schema.
+ *
+ * @example
+ * contextSchema: z.object({
+ *     userId: shared(z.string()),
+ * }),
+ */
+export function shared<TSchema extends z.ZodType>(schema: TSchema): Shared<TSchema> {
+    sharedSchemas.add(schema, { shared: true });
+    return schema as Shared<TSchema>;
+}
+
+// Helper type to extract the keys of a Zod schema's properties that aren't shared
+type ExtractZodKeys<T> = T extends z.ZodObject<infer Shape>
+    ? { [K in keyof Shape]: Shape[K] extends { readonly [sharedBrand]: true } ? never : K }[keyof Shape]
+    : never;
+
+// Helper type to extract all keys from a Zod schema, shared or not
+type ExtractAllZodKeys<T> = T extends z.ZodObject<infer Shape> ? keyof Shape : never;
+
+// Helper type to infer the properties a Zod schema defines, without the index
+// signature `z.infer` adds to empty objects
+type InferZodProperties<T> = T extends z.ZodObject<infer Shape>
+    ? { [K in keyof Shape]: z.infer<Shape[K]> }
+    : {};
+
+// Helper type to find keys that are defined again by a schema, colliding unless
+// both definitions are shared with the same type
+type FindDuplicateKeys<T extends readonly any[], SeenKeys = never, SeenAllKeys = never, Seen = {}> = T extends readonly [
     infer First,
     ...infer Rest
 ]
     ? First extends IMiddleware<any, infer ContextSchema, any>
         ? ContextSchema extends z.ZodObject<any>
-            ? ExtractZodKeys<ContextSchema> extends infer CurrentKeys
-                ? CurrentKeys extends keyof any
-                    ? CurrentKeys & SeenKeys extends never
-                        ? Rest extends readonly any[]
-                            ? FindDuplicateKeys<Rest, SeenKeys | CurrentKeys>
-                            : never
-                        : CurrentKeys & SeenKeys // Return the duplicate keys
-                    : Rest extends readonly any[]
-                        ? FindDuplicateKeys<Rest, SeenKeys>
+            ? | (ExtractZodKeys<ContextSchema> & SeenAllKeys)
+              | (ExtractAllZodKeys<ContextSchema> & SeenKeys)
+              | ConflictingKeys<Seen, InferZodProperties<ContextSchema>> extends infer Duplicates
+                ? [Duplicates] extends [never]
+                    ? Rest extends readonly any[]
+                        ? FindDuplicateKeys<
+                            Rest,
+                            SeenKeys | ExtractZodKeys<ContextSchema>,
+                            SeenAllKeys | ExtractAllZodKeys<ContextSchema>,
+                            Seen & InferZodProperties<ContextSchema>
+                        >
                         : never
+                    : Duplicates // Return the duplicate keys
                 : never
             : Rest extends readonly any[]
-                ? FindDuplicateKeys<Rest, SeenKeys>
+                ? FindDuplicateKeys<Rest, SeenKeys, SeenAllKeys, Seen>
                 : never
         : Rest extends readonly any[]
-            ? FindDuplicateKeys<Rest, SeenKeys>
+            ? FindDuplicateKeys<Rest, SeenKeys, SeenAllKeys, Seen>
             : never
     : never;
 
+// Helper type to find keys two state types define with different types
+type ConflictingKeys<A, B> = {
+    [K in keyof A & keyof B]: [A[K]] extends [B[K]]
+        ? [B[K]] extends [A[K]]
+            ? never
+            : K
+        : K
+}[keyof A & keyof B];
+
+// Helper type to find state keys middlewares define with different types
+type FindStateConflicts<T extends readonly any[], Seen = {}> = T extends readonly [
+    infer First,
+    ...infer Rest
+]
+    ? First extends IMiddleware<infer Schema, any, any>
+        ? Schema extends z.ZodObject<any>
+            ? ConflictingKeys<Seen, z.infer<Schema>> | FindStateConflicts<Rest, Seen & z.infer<Schema>>
+            : FindStateConflicts<Rest, Seen>
+        : FindStateConflicts<Rest, Seen>
+    : never;
+
 // Error message type for duplicate context properties
 type DuplicateContextError<Keys extends string> = {
-    error: `Duplicate context properties detected: ${Keys}. Each context property name must be unique across all middlewares and the agent's context schema.`;
+    error: `Duplicate context properties detected: ${Keys}. Each context property name must be unique across all middlewares and the agent's context schema, or marked with shared() and the same schema in all of them.`;
 };
 
 // Helper to check for duplicates between agent context and middleware contexts
 type CheckForDuplicateContexts<
     TContextSchema extends z.ZodObject<any> | undefined,
     TMiddlewares extends readonly any[]
-> = TContextSchema extends z.ZodObject<any>
-    ? ExtractZodKeys<TContextSchema> & CollectContextKeys<TMiddlewares> extends never
-        ? FindDuplicateKeys<TMiddlewares> extends never
-            ? true // No duplicates
-            : DuplicateContextError<Extract<FindDuplicateKeys<TMiddlewares>, string>>
-        : DuplicateContextError<Extract<ExtractZodKeys<TContextSchema> & CollectContextKeys<TMiddlewares>, string>>
-    : FindDuplicateKeys<TMiddlewares> extends never
+> = FindDuplicateKeys<
+    TMiddlewares,
+    ExtractZodKeys<TContextSchema>,
+    ExtractAllZodKeys<TContextSchema>,
+    InferZodProperties<TContextSchema>
+> extends infer Duplicates
+    ? [Duplicates] extends [never]
         ? true // No duplicates
-        : DuplicateContextError<Extract<FindDuplicateKeys<TMiddlewares>, string>>;
+        : DuplicateContextError<Extract<Duplicates, string>>
+    : never;
 
 // Helper to infer all middleware contexts (with duplicate check)
 type InferMiddlewareContexts<T extends readonly any[]> = 
@@ -373,19 +873,9 @@ type IsAllOptional<T> = T extends Record<string, any>
         : false
     : true;
 
-/**
- * Configurations for retry call (see below for details)
- */
-interface RetryOptions {
-    /** Reason for retry (for logging) */
-    reason?: string;
-    /** Maximum retry attempts (default: 3) */
-    maxAttempts?: number;
-    /** Which node to retry from (default: current node) */
-    retryFrom?: "before_model" | "tools" | "after_model";
-}
-
-// Helper to merge all context schemas into one
+// Helper to merge all context schemas into one, throwing on properties defined
+// by more than one schema unless every definition is marked with `shared()`
+// and they agree on the schema
 function mergeContextSchemas<
     TContextSchema extends z.ZodObject<z.ZodRawShape>,
     TMiddlewares extends readonly IMiddleware<any, any, any>[]
@@ -394,11 +884,41 @@ function mergeContextSchemas<
     middlewares?: TMiddlewares
 ): z.ZodObject<any> {
     let mergedSchema = contextSchema || z.object({});
+
+    // Where each property was defined first, whether that definition is shared and its JSON schema
+    const owners = new Map<string, { owner: string; shared: boolean; schema: string }>();
+    const describe = (field: unknown) => ({
+        shared: sharedSchemas.has(field as z.ZodType),
+        schema: JSON.stringify(z.toJSONSchema(field as z.ZodType, { unrepresentable: 'any' })),
+    });
+    for (const [key, field] of Object.entries(mergedSchema.shape)) {
+        owners.set(key, { owner: "the agent's contextSchema", ...describe(field) });
+    }
     
     if (middlewares) {
         for (const middleware of middlewares) {
             if (middleware.contextSchema) {
-                mergedSchema = mergedSchema.merge(middleware.contextSchema as z.ZodObject<any>);
+                const schema = middleware.contextSchema as z.ZodObject<any>;
+                for (const [key, field] of Object.entries(schema.shape)) {
+                    const definition = describe(field);
+                    const existing = owners.get(key);
+                    if (!existing) {
+                        owners.set(key, { owner: `middleware "${middleware.name}"`, ...definition });
+                    } else if (!existing.shared || !definition.shared) {
+                        throw new Error(
+                            `Context property "${key}" is defined by both ${existing.owner} and middleware ` +
+                            `"${middleware.name}". Rename one of them or mark the property with \`shared()\` ` +
+                            'in both schemas if they intend to read the same value.'
+                        );
+                    } else if (existing.schema !== definition.schema) {
+                        // The later schema would silently win when merging
+                        throw new Error(
+                            `Context property "${key}" is shared by ${existing.owner} and middleware ` +
+                            `"${middleware.name}" with different schemas.`
+                        );
+                    }
+                }
+                mergedSchema = mergedSchema.merge(schema);
             }
         }
     }
@@ -406,10 +926,231 @@ function mergeContextSchemas<
     return mergedSchema;
 }
 
+// Helper to make sure middlewares only share state properties they define with the same schema and reducer
+function checkStateSchemas(middlewares: readonly IMiddleware<any, any, any>[]): void {
+    const definitions = new Map<string, { middleware: string; schema: string; reducer: unknown }>();
+    for (const middleware of middlewares) {
+        for (const [key, field] of Object.entries(middleware.stateSchema?.shape ?? {})) {
+            // Compare the JSON schemas, so equal definitions from different schema instances match
+            const schema = JSON.stringify(z.toJSONSchema(field as z.ZodType, { unrepresentable: 'any' }));
+            const reducer = reducerRegistry.get(field as z.ZodType)?.reducer;
+            const existing = definitions.get(key);
+            if (!existing) {
+                definitions.set(key, { middleware: middleware.name, schema, reducer });
+            } else if (existing.schema !== schema) {
+                throw new Error(
+                    `State property "${key}" is defined with different schemas by middlewares ` +
+                    `"${existing.middleware}" and "${middleware.name}".`
+                );
+            } else if (existing.reducer !== reducer) {
+                // Only one reducer can apply the updates, the other middleware would silently lose its semantics
+                throw new Error(
+                    `State property "${key}" is defined with different reducers by middlewares ` +
+                    `"${existing.middleware}" and "${middleware.name}".`
+                );
+            }
+        }
+    }
+}
+
+// Helper to order middlewares by their `before`/`after` constraints, then by
+// priority, then by their position in the array
+function sortMiddlewares<TMiddleware extends IMiddleware<any, any, any>>(
+    middlewares: readonly TMiddleware[]
+): TMiddleware[] {
+    const indexesOf = (name: string) => middlewares.flatMap((middleware, index) =>
+        middleware.name === name ? [index] : []
+    );
+
+    // Edges point from a middleware to the middlewares that have to run after it
+    const successors = middlewares.map(() => new Set<number>());
+    middlewares.forEach((middleware, index) => {
+        for (const name of middleware.before ?? []) {
+            for (const other of indexesOf(name)) {
+                successors[index]!.add(other);
+            }
+        }
+        for (const name of middleware.after ?? []) {
+            for (const other of indexesOf(name)) {
+                successors[other]!.add(index);
+            }
+        }
+    });
+
+    const pending = middlewares.map(() => 0);
+    for (const next of successors) {
+        for (const index of next) {
+            pending[index]! += 1;
+        }
+    }
+
+    const sorted: TMiddleware[] = [];
+    const ready = middlewares.flatMap((_, index) => pending[index] === 0 ? [index] : []);
+    while (ready.length > 0) {
+        ready.sort((a, b) =>
+            (middlewares[b]!.priority ?? 0) - (middlewares[a]!.priority ?? 0) || a - b
+        );
+        const index = ready.shift()!;
+        sorted.push(middlewares[index]!);
+        for (const next of successors[index]!) {
+            pending[next]! -= 1;
+            if (pending[next] === 0) {
+                ready.push(next);
+            }
+        }
+    }
+
+    if (sorted.length < middlewares.length) {
+        const cycle = middlewares.filter((_, index) => pending[index]! > 0).map(middleware => middleware.name);
+        throw new Error(`Middleware ordering constraints form a cycle between: ${cycle.join(', ')}.`);
+    }
+    return sorted;
+}
+
+// Nodes of the agent loop
+export type AgentNode = 'before_model' | 'model' | 'after_model' | 'before_tools' | 'tools' | 'after_tools';
+
+/**
+ * Events emitted by `agent.stream()` while a run progresses.
+ */
+export type AgentStreamEvent<TState = any> =
+    /** A node of the agent loop starts */
+    | { type: 'node_start'; node: AgentNode }
+    /** A node of the agent loop finished */
+    | { type: 'node_end'; node: AgentNode }
+    /** A middleware hook returned a state update */
+    | { type: 'state_update'; middleware: string; hook: MiddlewareHook; update: Partial<TState> }
+    /** A middleware hook returned a control action */
+    | { type: 'control'; middleware: string; hook: MiddlewareHook; action: ControlAction }
+    /** A piece of text generated by the model */
+    | { type: 'model_chunk'; content: string }
+    /** A tool call starts executing */
+    | { type: 'tool_start'; toolCall: ToolCall }
+    /** A tool call finished, successfully or not */
+    | { type: 'tool_result'; result: ToolResult }
+    /** A middleware interrupted the run, `final` follows with the state to resume from */
+    | { type: 'interrupt'; interrupt: Interrupt }
+    /** The run ended with this state */
+    | { type: 'final'; state: TState };
+
+// Turn a run that reports events through a callback into an async iterable.
+// The run is aborted through `signal` when the consumer stops iterating early.
+async function* iterateEvents<TEvent>(
+    start: (emit: (event: TEvent) => void, signal: AbortSignal) => Promise<unknown>
+): AsyncGenerator<TEvent> {
+    const controller = new AbortController();
+    const queue: TEvent[] = [];
+    let wakeUp: (() => void) | undefined;
+    let finished = false;
+    let failure: { error: unknown } | undefined;
+
+    const notify = () => {
+        wakeUp?.();
+        wakeUp = undefined;
+    };
+
+    start(event => {
+        queue.push(event);
+        notify();
+    }, controller.signal).then(
+        () => {
+            finished = true;
+            notify();
+        },
+        error => {
+            failure = { error };
+            finished = true;
+            notify();
+        }
+    );
+
+    try {
+        while (true) {
+            if (queue.length > 0) {
+                yield queue.shift()!;
+            } else if (finished) {
+                if (failure) {
+                    throw failure.error;
+                }
+                return;
+            } else {
+                await new Promise<void>(resolve => {
+                    wakeUp = resolve;
+                });
+            }
+        }
+    } finally {
+        // The consumer broke out of the loop (or it threw), stop the run
+        if (!finished) {
+            controller.abort();
+        }
+    }
+}
+
+// Helper to run a token estimator, a failing estimator leaves the call uncounted
+// instead of failing the run
+function estimateUsage(
+    tokenEstimator: TokenEstimator,
+    request: ModelRequest,
+    response: ModelResponse,
+    model: LanguageModelLike
+): TokenUsage {
+    try {
+        return tokenEstimator(request, response, model);
+    } catch {
+        return { inputTokens: 0, outputTokens: 0, totalTokens: 0 };
+    }
+}
+
+// Helper to resolve the model chosen for this step and call it with the prepared options,
+// also returns the model that handled the call
+async function callModel(
+    options: PreparedCall,
+    tools: (ClientTool | ServerTool)[],
+    registry: ModelRegistry,
+    callOptions: ModelCallOptions,
+    tokenEstimator: TokenEstimator
+): Promise<{ model: LanguageModelLike; response: ModelResponse }> {
+    if (!options.model) {
+        throw new Error(
+            'No model available for this step. Pass a model to `createAgent({ model })` or set one in `prepareCall`.'
+        );
+    }
+
+    const model = registry.resolve(options.model);
+    const request: ModelRequest = {
+        messages: options.messages ?? [],
+        ...(options.systemMessage !== undefined && { systemMessage: options.systemMessage }),
+        tools,
+        toolChoice: options.toolChoice ?? 'auto',
+    };
+    const response = await model.invoke(request, callOptions);
+
+    // Count the tokens locally if the provider didn't report them
+    const usage = response.usage ?? { ...estimateUsage(tokenEstimator, request, response, model), estimated: true };
+    response.message.usage ??= usage;
+    return { model, response: { ...response, usage } };
+}
+
+/**
+ * Per-call options of `invoke` and `stream`.
+ */
+export interface InvokeConfig {
+    /**
+     * Conversation to continue. The state saved by the agent's checkpointer
+     * for this thread is loaded before the run and updated after every node.
+     */
+    threadId?: string;
+}
+
 // Create a branded error type that TypeScript will display nicely
 type ContextPropertyConflictError<TKey extends string> = 
     `Error: Context property '${TKey}' is defined in multiple places. Each context property must have a unique name across the agent's contextSchema and all middleware contextSchemas.`;
 
+// Branded error type shown when middlewares define the same state property differently
+type StatePropertyConflictError<TKey extends string> = 
+    `Error: State property '${TKey}' is defined with different types by multiple middlewares. Middlewares can only share a state property if they define it with the same schema.`;
+
 // Updated createAgent with clearer error reporting
 export function createAgent<
     TContextSchema extends z.ZodObject<z.ZodRawShape> | undefined = undefined,
@@ -421,12 +1162,64 @@ export function createAgent<
             contextSchema?: TContextSchema;
             middlewares?: TMiddlewares;
         }
-    : {
-        model?: string;
-        tools?: (string | ClientTool | ServerTool)[];
-        contextSchema?: TContextSchema;
-        middlewares?: TMiddlewares;
-    }
+    : [FindStateConflicts<TMiddlewares>] extends [never]
+        ? {
+            model?: string | LanguageModelLike;
+            /**
+             * Registry used to resolve model ids, defaults to the shared `modelRegistry`.
+             */
+            modelRegistry?: ModelRegistry;
+            /**
+             * Tools available to the model by default. Tool instances are registered
+             * with the agent, names are resolved through `toolRegistry`.
+             */
+            tools?: (string | ClientTool | ServerTool)[];
+            /**
+             * Registry used to resolve tool names, defaults to the shared `toolRegistry`.
+             * `prepareCall` can narrow the tools of a step to any tool known here.
+             */
+            toolRegistry?: ToolRegistry;
+            /**
+             * Maximum number of tool calls of one model response running at the
+             * same time (default: 10). Results keep the order of the calls.
+             */
+            maxToolConcurrency?: number;
+            /**
+             * Maximum number of nodes a run may execute before it rejects with a
+             * `RecursionLimitError` (default: 100). A model call with its tool
+             * calls takes six nodes.
+             */
+            recursionLimit?: number;
+            /**
+             * Saves the state of a thread after every node, used when `invoke` is
+             * called with a `threadId`.
+             */
+            checkpointer?: Checkpointer;
+            /**
+             * Counts the tokens of model calls whose model doesn't report
+             * usage, defaults to `estimateTokenUsage`. A call the estimator
+             * throws on is counted as 0 tokens.
+             */
+            tokenEstimator?: TokenEstimator;
+            /**
+             * Prices used for the cost of model calls, defaults to the shared `pricingTable`.
+             */
+            pricing?: PricingTable;
+            contextSchema?: TContextSchema;
+            /**
+             * Middlewares of the agent, ordered by their `before`/`after`
+             * constraints and `priority`, otherwise by position. `beforeModel`,
+             * `beforeTools` and `prepareCall` run in this order. The fields each
+             * `prepareCall` returns are merged into the options of the call, so a
+             * middleware returning `{ systemMessage }` keeps the model, messages
+             * and tools chosen before it, and the next `prepareCall` gets the
+             * merged options (`undefined` keeps them). `afterModel` and
+             * `afterTools` run in reverse order, and the first middleware's
+             * `wrapModelCall`/`wrapToolCall` is the outermost.
+             */
+            middlewares?: TMiddlewares;
+        }
+        : StatePropertyConflictError<Extract<FindStateConflicts<TMiddlewares>, string>>
 ) {
     // Create properly typed middleware array with full state type
     type FullState = InferMergedState<TMiddlewares>;
@@ -439,79 +1232,461 @@ export function createAgent<
         : InferMiddlewareContextsInput<TMiddlewares>;
     
     // Type assertion needed because TypeScript can't narrow the conditional type
-    const { contextSchema: cs, middlewares: mw } = config as {
+    const {
+        contextSchema: cs,
+        middlewares: mw,
+        model,
+        modelRegistry: registry = modelRegistry,
+        tools = [],
+        toolRegistry: sharedTools = toolRegistry,
+        maxToolConcurrency,
+        recursionLimit = 100,
+        checkpointer,
+        tokenEstimator = estimateTokenUsage,
+        pricing = pricingTable,
+    } = config as {
+        model?: string | LanguageModelLike;
+        modelRegistry?: ModelRegistry;
+        tools?: (string | ClientTool | ServerTool)[];
+        toolRegistry?: ToolRegistry;
+        maxToolConcurrency?: number;
+        recursionLimit?: number;
+        checkpointer?: Checkpointer;
+        tokenEstimator?: TokenEstimator;
+        pricing?: PricingTable;
         contextSchema?: TContextSchema;
         middlewares?: TMiddlewares;
     };
     
+    if (!Number.isInteger(recursionLimit) || recursionLimit < 1) {
+        throw new Error(`\`recursionLimit\` must be a positive integer, got ${recursionLimit}.`);
+    }
+
     // Create merged context schema for validation
     const mergedContextSchema = mergeContextSchemas(cs, mw);
+
+    // Fail early on middlewares that define the same state property differently
+    checkStateSchemas(mw ?? []);
+
+    // Reducers of state fields, used to apply the updates returned by middlewares
+    const reducers = getReducers((mw ?? []).map(middleware => middleware.stateSchema));
+
+    // Middlewares in the order their before hooks run, after hooks unwind in reverse
+    const middlewares = sortMiddlewares(mw ?? []);
+    const reversedMiddlewares = [...middlewares].reverse();
+
+    // Schemas the state updates of each middleware are validated against: any
+    // subset of its own state fields and the built-in messages, nothing else
+    const updateSchemas = new Map(middlewares.map(middleware => [
+        middleware,
+        (middleware.stateSchema?.partial() ?? z.object({}))
+            .extend({ messages: z.array(z.instanceof(BaseMessage)).optional() })
+            .strict(),
+    ]));
+
+    // Register the agent's tool instances on top of the shared registry and
+    // fail early on unknown tool names
+    const agentTools = new ToolRegistry(
+        tools.filter((tool): tool is ClientTool | ServerTool => typeof tool !== 'string'),
+        sharedTools
+    );
+    const defaultTools = agentTools.resolve(tools);
+
+    // A concurrency limit below 1 would make tool calls wait forever
+    checkConcurrencyLimit(maxToolConcurrency, '`maxToolConcurrency`');
+    for (const tool of defaultTools.filter((t): t is ClientTool => typeof t.invoke === 'function')) {
+        checkConcurrencyLimit(tool.maxConcurrency, `\`maxConcurrency\` of tool "${tool.name}"`);
+    }
     
-    return {
-        invoke: async (
-            state: FullStateInput,
-            ...args: IsAllOptional<FullContext> extends true 
-                ? [context?: FullContext] 
-                : [context: FullContext]
-        ): Promise<FullState> => {
-            // Parse and validate context with defaults
-            const context = mergedContextSchema.parse(args[0] ?? {}) as FullContext;
-            
-            // Create initial runtime
-            const runtime: Runtime<FullContext> = {
-                toolCalls: [],
-                toolResults: [],
-                tokenUsage: {
-                    inputTokens: 0,
-                    outputTokens: 0,
-                    totalTokens: 0
-                },
-                context: context,
-                currentIteration: 0
-            };
-
-            // Initialize middleware states by parsing their schemas
-            const middlewareStates: Record<string, any> = {};
-            for (const middleware of mw || []) {
-                if (middleware.stateSchema) {
-                    // Parse the schema to get default values
-                    const defaultState = middleware.stateSchema.parse({});
-                    // Spread the default state properties directly into middlewareStates
-                    Object.assign(middlewareStates, defaultState);
-                }
+    type ContextArgs = IsAllOptional<FullContext> extends true
+        ? [context?: FullContext, config?: InvokeConfig]
+        : [context: FullContext, config?: InvokeConfig];
+
+    // Execute a single run, reporting progress through `emit`
+    const run = async (
+        input: FullStateInput | Command,
+        contextInput: FullContext | undefined,
+        invokeConfig: InvokeConfig | undefined,
+        emit: (event: AgentStreamEvent<FullState>) => void,
+        signal?: AbortSignal
+    ): Promise<AgentResult<FullState>> => {
+        // Parse and validate context with defaults
+        const context = mergedContextSchema.parse(contextInput ?? {}) as FullContext;
+        
+        // Create initial runtime
+        const runtime: MutableRuntime<FullContext> = {
+            toolCalls: [],
+            toolResults: [],
+            tokenUsage: {
+                inputTokens: 0,
+                outputTokens: 0,
+                totalTokens: 0
+            },
+            context: context,
+            currentIteration: 0,
+            cost: createCostLedger(),
+            threadCost: createCostLedger(),
+        };
+
+        // Initialize middleware states by parsing their schemas
+        const middlewareStates: Record<string, any> = {};
+        for (const middleware of mw || []) {
+            if (middleware.stateSchema) {
+                // Parse the schema to get default values
+                const defaultState = middleware.stateSchema.parse({});
+                // Spread the default state properties directly into middlewareStates
+                Object.assign(middlewareStates, defaultState);
             }
+        }
 
-            // Create initial merged state
-            const initialState = {
+        // Continue the thread from its last checkpoint, new input messages are
+        // appended to the saved conversation
+        const threadId = invokeConfig?.threadId;
+        if (threadId !== undefined && !checkpointer) {
+            throw new Error('Passing a `threadId` requires a checkpointer, see `createAgent({ checkpointer })`.');
+        }
+        const saved = threadId !== undefined ? await checkpointer!.get(threadId) : undefined;
+        if (saved?.cost) {
+            runtime.threadCost = saved.cost;
+        }
+
+        // A resumed run continues at the interrupted node with the saved state
+        let resume: { interrupt: Interrupt; value: unknown } | undefined;
+        if (input instanceof Command) {
+            if (threadId === undefined) {
+                throw new Error('Resuming a run requires the `threadId` of the interrupted thread.');
+            }
+            if (!saved?.interrupt || !saved.next) {
+                throw new Error(`Thread "${threadId}" has no interrupted run to resume.`);
+            }
+            resume = { interrupt: saved.interrupt, value: input.resume };
+            runtime.toolCalls = saved.toolCalls;
+            runtime.toolResults = saved.toolResults;
+            if (saved.lastCallUsage) {
+                runtime.lastCallUsage = saved.lastCallUsage;
+            }
+        }
+
+        // Create initial merged state
+        const initialState = (input instanceof Command
+            ? { ...middlewareStates, ...saved!.state }
+            : {
                 ...middlewareStates,
-                ...state,
-            } as FullState;
-
-            // Process middlewares
-            let currentState = initialState;
-            
-            for (const middleware of mw || []) {
-                const controls = {} as Controls<FullState>;
-                
-                if (middleware.beforeModel) {
-                    const result = await middleware.beforeModel(
-                        currentState,
-                        runtime,
-                        controls
+                ...saved?.state,
+                ...input,
+                messages: appendMessages(saved?.state.messages, input.messages),
+            }) as FullState;
+
+        let currentState = initialState;
+        const controls = createControls<FullState>();
+
+        // Merge a partial state update into the current state using the fields' reducers
+        const applyUpdate = (update: Partial<FullState> | Partial<AgentBuiltInState> | undefined) => {
+            if (update) {
+                currentState = reduceState(currentState, update as Partial<FullState>, reducers);
+            }
+        };
+
+        // Consecutive retries requested per middleware hook
+        const retryAttempts = new Map<string, number>();
+
+        // Set when a middleware interrupts the run
+        let interrupt: Interrupt | undefined;
+
+        // Run a hook of every middleware, stopping at the first control action.
+        // Before hooks run in middleware order, after hooks in reverse order.
+        const runHooks = async (hook: MiddlewareHook): Promise<ControlAction | undefined> => {
+            const ordered = hook === 'afterModel' || hook === 'afterTools' ? reversedMiddlewares : middlewares;
+            for (const middleware of ordered) {
+                const fn = middleware[hook];
+                if (!fn) {
+                    continue;
+                }
+
+                // Only the middleware that interrupted the run gets the resume value
+                const resumes = resume?.interrupt.middleware === middleware.name && resume.interrupt.hook === hook;
+                if (resumes) {
+                    runtime.resumeValue = resume!.value;
+                }
+                const result = await fn(currentState, runtime, controls);
+                if (resumes) {
+                    delete runtime.resumeValue;
+                    resume = undefined;
+                }
+                const attemptKey = `${middleware.name}:${hook}`;
+
+                // Check the update before it reaches the state
+                const update = isControlAction(result) ? result.stateUpdate ?? result.result : result;
+                if (update && middleware.validateState !== false) {
+                    const parsed = updateSchemas.get(middleware)!.safeParse(unwrapUpdate(update));
+                    if (!parsed.success) {
+                        throw new MiddlewareStateError(middleware.name, hook, parsed.error);
+                    }
+                }
+
+                if (isControlAction(result) && result.type === 'retry') {
+                    const attempts = (retryAttempts.get(attemptKey) ?? 0) + 1;
+                    if (attempts <= (result.retryOptions?.maxAttempts ?? 3)) {
+                        retryAttempts.set(attemptKey, attempts);
+                        emit({ type: 'control', middleware: middleware.name, hook, action: result });
+                        return result;
+                    }
+                    // Out of attempts, carry on as if the hook returned nothing
+                    retryAttempts.delete(attemptKey);
+                    continue;
+                }
+
+                retryAttempts.delete(attemptKey);
+                if (isControlAction(result)) {
+                    emit({ type: 'control', middleware: middleware.name, hook, action: result });
+                    if (result.type === 'interrupt') {
+                        interrupt = { middleware: middleware.name, hook, payload: result.payload };
+                    }
+                    return result;
+                }
+                if (result) {
+                    applyUpdate(result as Partial<FullState>);
+                    emit({ type: 'state_update', middleware: middleware.name, hook, update: result as Partial<FullState> });
+                }
+            }
+            return undefined;
+        };
+
+        // Apply a control action and return the node to continue with (undefined ends the run)
+        const handleControlAction = (action: ControlAction, currentNode: AgentNode): AgentNode | undefined => {
+            if (action.type === 'interrupt') {
+                if (threadId === undefined) {
+                    throw new Error('Interrupting a run requires a checkpointer and a `threadId` to resume it later.');
+                }
+                return undefined;
+            }
+
+            applyUpdate(action.stateUpdate);
+
+            if (action.type === 'jump') {
+                if (action.target !== 'tools') {
+                    return action.target as AgentNode;
+                }
+                const pending = runtime.toolCalls.filter(toolCall =>
+                    !runtime.toolResults.some(result => result.id === toolCall.id)
+                );
+                if (pending.length === 0) {
+                    throw new Error(
+                        `A middleware jumped to "tools" from "${currentNode}", but the latest model response ` +
+                        'has no tool calls left to run.'
                     );
-                    
-                    // Handle control actions or state updates
-                    if (result && typeof result === 'object' && 'type' in result) {
-                        // Handle control action (terminate, jump, retry)
-                        // Implementation would handle these control flows
-                    } else if (result) {
-                        // Merge partial state update
-                        currentState = { ...currentState, ...result };
+                }
+                // Tool calls never skip the `beforeTools` hooks
+                return currentNode === 'before_tools' ? 'tools' : 'before_tools';
+            }
+            if (action.type === 'retry') {
+                return action.retryOptions?.retryFrom ?? currentNode;
+            }
+            if (action.error) {
+                throw action.error;
+            }
+            applyUpdate(action.result);
+            return undefined;
+        };
+
+        // Tools offered to the model in the most recent call, a resumed run
+        // continues with the tools offered before the interrupt
+        let offeredTools = resume
+            ? saved!.offeredTools.map(name => {
+                const tool = agentTools.get(name);
+                if (!tool) {
+                    throw new Error(
+                        `Tool "${name}" was offered to the model before the interrupt but isn't known to the agent. ` +
+                        'Pass it to `createAgent({ tools })` or register it in the tool registry to resume the run.'
+                    );
+                }
+                return tool;
+            })
+            : defaultTools;
+
+        // Agent loop: before_model -> model -> after_model -> before_tools -> tools -> after_tools,
+        // until the model responds without requesting any tool calls or a middleware ends the run
+        let node: AgentNode | undefined = resume ? saved!.next! : 'before_model';
+        let steps = 0;
+        while (node) {
+            signal?.throwIfAborted();
+            steps += 1;
+            if (steps > recursionLimit) {
+                throw new RecursionLimitError(recursionLimit);
+            }
+            const current: AgentNode = node;
+            const nodeStartState = currentState;
+            emit({ type: 'node_start', node: current });
+
+            switch (current) {
+                case 'before_model': {
+                    const action = await runHooks('beforeModel');
+                    node = action ? handleControlAction(action, 'before_model') : 'model';
+                    break;
+                }
+
+                case 'model': {
+                    runtime.currentIteration += 1;
+
+                    // Each middleware may modify the options of this call only
+                    let options: PreparedCall = {
+                        ...(model !== undefined && { model }),
+                        messages: currentState.messages,
+                        tools: defaultTools,
+                        toolChoice: 'auto',
+                    };
+                    for (const middleware of middlewares) {
+                        if (middleware.prepareCall) {
+                            options = { ...options, ...(await middleware.prepareCall(options, currentState, runtime)) };
+                        }
                     }
+
+                    // Tool names chosen by middlewares resolve against the agent's registry
+                    // Every call reaching the model is accounted, including fallback calls of wrappers
+                    const handler: ModelCallHandler = async request => {
+                        offeredTools = agentTools.resolve(request.tools ?? []);
+                        const { model, response } = await callModel(request, offeredTools, registry, {
+                            onChunk: content => emit({ type: 'model_chunk', content }),
+                            ...(signal && { signal }),
+                        }, tokenEstimator);
+                        runtime.lastCallUsage = response.usage!;
+                        runtime.tokenUsage = addTokenUsage(runtime.tokenUsage, response.usage!);
+                        // Price each call with the rates of the model that handled it
+                        runtime.cost = recordCost(runtime.cost, model.modelId, response.usage!, pricing);
+                        runtime.threadCost = recordCost(runtime.threadCost, model.modelId, response.usage!, pricing);
+                        return response;
+                    };
+
+                    // Tools of the prepared call, also when a wrapper answers without calling the model
+                    offeredTools = agentTools.resolve(options.tools ?? []);
+
+                    // Nest the middlewares' wrappers, the first middleware ends up outermost
+                    const modelState = currentState;
+                    const wrappedHandler = middlewares.reduceRight<ModelCallHandler>((inner, middleware) => {
+                        const wrap = middleware.wrapModelCall;
+                        return wrap ? request => wrap(request, inner, modelState, runtime) : inner;
+                    }, handler);
+                    const response = await wrappedHandler(options);
+                    runtime.toolCalls = response.toolCalls;
+                    applyUpdate({ messages: [response.message] });
+                    node = 'after_model';
+                    break;
+                }
+
+                case 'after_model': {
+                    const action = await runHooks('afterModel');
+                    if (action) {
+                        node = handleControlAction(action, 'after_model');
+                    } else {
+                        node = runtime.toolCalls.length > 0 ? 'before_tools' : undefined;
+                    }
+                    break;
+                }
+
+                case 'before_tools': {
+                    const action = await runHooks('beforeTools');
+                    node = action ? handleControlAction(action, 'before_tools') : 'tools';
+                    break;
+                }
+
+                case 'tools': {
+                    // Nest the middlewares' wrappers, the first middleware ends up outermost
+                    const toolState = currentState;
+                    const wrapToolCall = middlewares.reduceRight<
+                        ((toolCall: ToolCall, handler: ToolCallHandler) => Promise<ToolResult>) | undefined
+                    >((inner, middleware) => {
+                        const wrap = middleware.wrapToolCall;
+                        if (!wrap) {
+                            return inner;
+                        }
+                        return (toolCall, handler) => wrap(
+                            toolCall,
+                            inner ? call => inner(call, handler) : handler,
+                            toolState,
+                            runtime
+                        );
+                    }, undefined);
+
+                    // Execute against the tools that were offered to the model
+                    const { results, messages } = await executeToolCalls(runtime.toolCalls, offeredTools, {
+                        ...(maxToolConcurrency !== undefined && { maxConcurrency: maxToolConcurrency }),
+                        ...(wrapToolCall && { wrapToolCall }),
+                        onToolStart: toolCall => emit({ type: 'tool_start', toolCall }),
+                        onToolResult: result => emit({ type: 'tool_result', result }),
+                    });
+                    runtime.toolResults = results;
+
+                    // A retried tools node replaces the results it added for these calls before,
+                    // so every tool call keeps exactly one tool message
+                    const stateMessages: BaseMessage[] = currentState.messages;
+                    const requestIndex = stateMessages.findLastIndex(isAIMessage);
+                    const previousResults = new Map(stateMessages
+                        .slice(requestIndex + 1)
+                        .filter(isToolMessage)
+                        .map(message => [message.toolCallId, message.id]));
+                    for (const message of messages) {
+                        const id = previousResults.get(message.toolCallId);
+                        if (id !== undefined) {
+                            message.id = id;
+                        }
+                    }
+                    applyUpdate({ messages });
+                    node = 'after_tools';
+                    break;
+                }
+
+                case 'after_tools': {
+                    const action = await runHooks('afterTools');
+                    node = action ? handleControlAction(action, 'after_tools') : 'before_model';
+                    break;
                 }
             }
 
-            return currentState;
-        },
+            // An interrupted node runs again from the start when the run is resumed
+            if (interrupt) {
+                currentState = nodeStartState;
+            }
+            const next = interrupt ? current : node;
+
+            emit({ type: 'node_end', node: current });
+
+            if (threadId !== undefined) {
+                await checkpointer!.put(threadId, {
+                    state: currentState,
+                    node: current,
+                    ...(next && { next }),
+                    toolCalls: runtime.toolCalls,
+                    offeredTools: offeredTools.flatMap(tool => tool.name !== undefined ? [tool.name] : []),
+                    toolResults: runtime.toolResults,
+                    ...(runtime.lastCallUsage && { lastCallUsage: runtime.lastCallUsage }),
+                    ...(interrupt && { interrupt }),
+                    cost: runtime.threadCost,
+                    createdAt: new Date().toISOString(),
+                });
+            }
+        }
+
+        if (interrupt) {
+            emit({ type: 'interrupt', interrupt });
+        }
+        emit({ type: 'final', state: currentState });
+        const __cost__: CostSummary = { run: runtime.cost, thread: runtime.threadCost };
+        return interrupt ? { ...currentState, __interrupt__: interrupt, __cost__ } : { ...currentState, __cost__ };
+    };
+
+    return {
+        /**
+         * Runs the agent until the model stops calling tools or a middleware ends
+         * the run, and returns the final state. Pass `Command.resume(value)`
+         * instead of a state to continue an interrupted thread.
+         */
+        invoke: async (state: FullStateInput | Command, ...args: ContextArgs): Promise<AgentResult<FullState>> =>
+            run(state, args[0], args[1], () => {}),
+        /**
+         * Runs the agent like `invoke`, yielding events as the run progresses.
+         * The last event is `final` with the final state.
+         */
+        stream: (state: FullStateInput | Command, ...args: ContextArgs): AsyncIterable<AgentStreamEvent<FullState>> =>
+            iterateEvents((emit, signal) => run(state, args[0], args[1], emit, signal)),
     };
 }
\ No newline at end of file
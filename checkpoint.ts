@@ -0,0 +1,145 @@
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import type { AgentNode, Interrupt, TokenUsage, ToolCall, ToolResult } from "./agent.js";
+import type { CostLedger } from "./pricing.js";
+import {
+    deserializeState,
+    deserializeValue,
+    serializeState,
+    serializeValue,
+    type SerializedState,
+} from "./serialization.js";
+
+/**
+ * Snapshot of a thread, saved after every node of a run.
+ */
+export interface Checkpoint<TState extends Record<string, any> = Record<string, any>> {
+    /** Merged state (built-in and middleware state) after `node` */
+    state: TState;
+    /** Node that just finished or was interrupted */
+    node: AgentNode;
+    /** Node the run continues with, undefined once the run ended */
+    next?: AgentNode;
+    /** Tool calls of the latest model response, needed to continue at `next` */
+    toolCalls: ToolCall[];
+    /** Names of the tools offered to the model in the latest call, the tools node runs against them */
+    offeredTools: string[];
+    /** Results of the latest tools step, restored as `runtime.toolResults` */
+    toolResults: ToolResult[];
+    /** Token usage of the latest model call, restored as `runtime.lastCallUsage` */
+    lastCallUsage?: TokenUsage;
+    /** Set while the run is interrupted and waits for `Command.resume()` */
+    interrupt?: Interrupt;
+    /** Cost of all model calls of the thread so far */
+    cost?: CostLedger;
+    /** ISO timestamp of when the checkpoint was taken */
+    createdAt: string;
+}
+
+/**
+ * Storage for the latest checkpoint of each thread. Pass one to
+ * `createAgent({ checkpointer })` and a `threadId` to `invoke` to continue
+ * a conversation across calls.
+ */
+export interface Checkpointer {
+    get(threadId: string): Promise<Checkpoint | undefined>;
+    put(threadId: string, checkpoint: Checkpoint): Promise<void>;
+    delete(threadId: string): Promise<void>;
+}
+
+// JSON-compatible form of a checkpoint, the values that may hold messages,
+// dates or maps are written with the format of `serializeState`
+type SerializedCheckpoint = Omit<Checkpoint, 'state' | 'toolResults' | 'interrupt'> & {
+    state: SerializedState;
+    toolResults: unknown;
+    interrupt?: Omit<Interrupt, 'payload'> & { payload: unknown };
+};
+
+function serializeCheckpoint(checkpoint: Checkpoint): SerializedCheckpoint {
+    const { interrupt, ...rest } = checkpoint;
+    return {
+        ...rest,
+        state: serializeState(checkpoint.state),
+        toolResults: serializeValue(checkpoint.toolResults),
+        ...(interrupt && { interrupt: { ...interrupt, payload: serializeValue(interrupt.payload) } }),
+    };
+}
+
+function deserializeCheckpoint(serialized: SerializedCheckpoint): Checkpoint {
+    const { interrupt, ...rest } = serialized;
+    return {
+        ...rest,
+        state: deserializeState(serialized.state),
+        toolResults: deserializeValue(serialized.toolResults),
+        ...(interrupt && { interrupt: { ...interrupt, payload: deserializeValue(interrupt.payload) } }),
+    };
+}
+
+// Helper to copy a checkpoint, so callers never share values with the stored one
+function copyCheckpoint(checkpoint: Checkpoint): Checkpoint {
+    return deserializeCheckpoint(serializeCheckpoint(checkpoint));
+}
+
+/**
+ * Keeps checkpoints in memory, they are lost when the process exits.
+ * Checkpoints are copied on `put` and `get`, changing a returned state (e.g.
+ * the `messages` of an `invoke` result) doesn't change the saved thread.
+ */
+export class InMemoryCheckpointer implements Checkpointer {
+    #checkpoints = new Map<string, Checkpoint>();
+
+    async get(threadId: string): Promise<Checkpoint | undefined> {
+        const checkpoint = this.#checkpoints.get(threadId);
+        return checkpoint && copyCheckpoint(checkpoint);
+    }
+
+    async put(threadId: string, checkpoint: Checkpoint): Promise<void> {
+        this.#checkpoints.set(threadId, copyCheckpoint(checkpoint));
+    }
+
+    async delete(threadId: string): Promise<void> {
+        this.#checkpoints.delete(threadId);
+    }
+}
+
+/**
+ * Stores every thread as a JSON file in `directory`, the state, tool results
+ * and interrupt payload are written with the format of `serializeState`.
+ */
+export class FileCheckpointer implements Checkpointer {
+    #directory: string;
+
+    constructor(directory: string) {
+        this.#directory = directory;
+    }
+
+    #file(threadId: string) {
+        return path.join(this.#directory, `${encodeURIComponent(threadId)}.json`);
+    }
+
+    async get(threadId: string): Promise<Checkpoint | undefined> {
+        let json: string;
+        try {
+            json = await fs.readFile(this.#file(threadId), 'utf8');
+        } catch (error: any) {
+            if (error?.code === 'ENOENT') {
+                return undefined;
+            }
+            throw error;
+        }
+
+        return deserializeCheckpoint(JSON.parse(json) as SerializedCheckpoint);
+    }
+
+    async put(threadId: string, checkpoint: Checkpoint): Promise<void> {
+        await fs.mkdir(this.#directory, { recursive: true });
+        // Write to a temporary file first so a crash never leaves a half-written checkpoint
+        const file = this.#file(threadId);
+        await fs.writeFile(`${file}.tmp`, JSON.stringify(serializeCheckpoint(checkpoint)), 'utf8');
+        await fs.rename(`${file}.tmp`, file);
+    }
+
+    async delete(threadId: string): Promise<void> {
+        await fs.rm(this.#file(threadId), { force: true });
+    }
+}
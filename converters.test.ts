@@ -0,0 +1,99 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+    fromAnthropicMessages,
+    fromLangChainMessages,
+    fromOpenAIMessage,
+    fromOpenAIMessages,
+    toAnthropicMessages,
+    toLangChainMessages,
+    toOpenAIMessages,
+    type CacheableMessage,
+} from "./converters.js";
+import { AIMessage, BaseMessage, SystemMessage, ToolMessage, UserMessage } from "./messages.js";
+
+// Helper to compare messages of formats that don't keep ids
+function withoutIds(messages: BaseMessage[]): Record<string, unknown>[] {
+    return messages.map(({ id, ...message }) => ({ ...message }));
+}
+
+const image = { type: 'image' as const, url: 'data:image/png;base64,iVBORw0KGgo=', mimeType: 'image/png' };
+const toolCall = { id: 'call_1', name: 'get_weather', args: { city: 'Paris' } };
+
+describe('LangChain', () => {
+    it('round-trips messages with ids, names, tool calls and usage', () => {
+        const messages = [
+            new SystemMessage('system', 'You are helpful.', { id: 'system' }),
+            new UserMessage('user', [{ type: 'text', text: 'Weather?' }, image], { id: 'user', name: 'alice' }),
+            new AIMessage('assistant', 'Let me check.', {
+                id: 'ai',
+                toolCalls: [toolCall],
+                usage: { inputTokens: 10, outputTokens: 5, totalTokens: 15, cacheReadTokens: 4, reasoningTokens: 2 },
+            }),
+            new ToolMessage('tool', 'Sunny', { id: 'tool', toolCallId: 'call_1', status: 'error' }),
+        ];
+
+        assert.deepEqual(fromLangChainMessages(toLangChainMessages(messages)), messages);
+    });
+
+    it('keeps tool use and tool result blocks in the content', () => {
+        const messages = [
+            new AIMessage('assistant', [
+                { type: 'text', text: 'Let me check.' },
+                { type: 'tool_use', id: 'call_1', name: 'get_weather', input: { city: 'Paris' } },
+            ], { id: 'ai', toolCalls: [toolCall] }),
+            new UserMessage('user', [
+                { type: 'tool_result', toolUseId: 'call_1', content: [{ type: 'text', text: 'Sunny' }], isError: true },
+            ], { id: 'user' }),
+        ];
+
+        assert.deepEqual(fromLangChainMessages(toLangChainMessages(messages)), messages);
+    });
+});
+
+describe('OpenAI', () => {
+    it('round-trips messages with tool calls', () => {
+        const messages = [
+            new SystemMessage('system', 'You are helpful.'),
+            new UserMessage('user', [{ type: 'text', text: 'Weather?' }, image], { name: 'alice' }),
+            new AIMessage('assistant', '', { toolCalls: [toolCall] }),
+            new ToolMessage('tool', 'Sunny', { toolCallId: 'call_1' }),
+            new AIMessage('assistant', 'It is sunny.'),
+        ];
+
+        assert.deepEqual(withoutIds(fromOpenAIMessages(toOpenAIMessages(messages))), withoutIds(messages));
+    });
+
+    it('rejects tool calls with malformed arguments', () => {
+        assert.throws(
+            () => fromOpenAIMessage({
+                role: 'assistant',
+                content: null,
+                tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'get_weather', arguments: '{"city": "Par' } }],
+            }),
+            /Cannot convert tool call "call_1" of tool "get_weather" from the OpenAI format/
+        );
+    });
+});
+
+describe('Anthropic', () => {
+    it('round-trips messages with tool use, tool results and cache points', () => {
+        const cached: CacheableMessage = new UserMessage('user', [{ type: 'text', text: 'Weather?' }, image]);
+        cached.cache_control = { type: 'ephemeral' };
+        const messages: CacheableMessage[] = [
+            new SystemMessage('system', 'You are helpful.'),
+            cached,
+            new AIMessage('assistant', [
+                { type: 'text', text: 'Let me check.' },
+                { type: 'tool_use', id: 'call_1', name: 'get_weather', input: { city: 'Paris' } },
+            ], { toolCalls: [toolCall] }),
+            new ToolMessage('tool', 'Sunny', { toolCallId: 'call_1', status: 'success' }),
+            new ToolMessage('tool', 'Not found', { toolCallId: 'call_2', status: 'error' }),
+            new AIMessage('assistant', 'It is sunny.'),
+        ];
+
+        const conversation = toAnthropicMessages(messages);
+        assert.equal(conversation.messages[2]!.content.length, 2, 'results of consecutive tool messages share a turn');
+        assert.deepEqual(withoutIds(fromAnthropicMessages(conversation)), withoutIds(messages));
+    });
+});
@@ -0,0 +1,664 @@
+import {
+    AIMessage as LangChainAIMessage,
+    HumanMessage as LangChainHumanMessage,
+    SystemMessage as LangChainSystemMessage,
+    ToolMessage as LangChainToolMessage,
+    type AIMessageFields as LangChainAIMessageFields,
+    type BaseMessage as LangChainBaseMessage,
+    type MessageContent as LangChainMessageContent,
+    type UsageMetadata,
+} from "@langchain/core/messages";
+import type { ToolCall } from "./agent.js";
+import {
+    AIMessage,
+    BaseMessage,
+    SystemMessage,
+    ToolMessage,
+    UserMessage,
+    isAIMessage,
+    isToolMessage,
+    type ContentBlock,
+    type ImageBlock,
+    type MessageContent,
+    type TextBlock,
+} from "./messages.js";
+
+/*
+ * Converters between agent messages and the message formats of LangChain,
+ * OpenAI chat completions and the Anthropic Messages API. Ids and names only
+ * survive the trip through LangChain, the provider formats don't have them.
+ */
+
+// Helper to get the tool calls of a message, only AI messages have them
+function getToolCalls(message: BaseMessage): ToolCall[] {
+    return isAIMessage(message) ? message.toolCalls : [];
+}
+
+// Helper for errors about content a format can't represent
+function unsupported(format: string, what: string): Error {
+    return new Error(`Cannot convert ${what} to or from the ${format} format.`);
+}
+
+// Split a `data:` URL into its mime type and base64 data
+function parseDataUrl(url: string): { mimeType: string; data: string } | undefined {
+    const match = /^data:([^;,]+);base64,(.*)$/s.exec(url);
+    return match ? { mimeType: match[1]!, data: match[2]! } : undefined;
+}
+
+// LangChain
+
+/**
+ * Converts an agent message into a `@langchain/core` message. Tool calls of
+ * AI messages become `tool_calls`, tool messages keep their `tool_call_id`.
+ */
+export function toLangChainMessage(message: BaseMessage): LangChainBaseMessage {
+    const fields = {
+        content: toLangChainContent(message.content),
+        id: message.id,
+        ...(message.name !== undefined && { name: message.name }),
+    };
+
+    if (isToolMessage(message)) {
+        return new LangChainToolMessage({
+            ...fields,
+            tool_call_id: message.toolCallId ?? '',
+            status: message.status,
+        });
+    }
+    if (isAIMessage(message) || message.role === 'assistant') {
+        const usage = isAIMessage(message) ? message.usage : undefined;
+        return new LangChainAIMessage({
+            ...fields,
+            tool_calls: getToolCalls(message).map(toolCall => ({ ...toolCall, type: 'tool_call' as const })),
+            ...(usage && {
+                usage_metadata: {
+                    input_tokens: usage.inputTokens,
+                    output_tokens: usage.outputTokens,
+                    total_tokens: usage.totalTokens,
+                    ...((usage.cacheReadTokens !== undefined || usage.cacheWriteTokens !== undefined) && {
+                        input_token_details: {
+                            ...(usage.cacheReadTokens !== undefined && { cache_read: usage.cacheReadTokens }),
+                            ...(usage.cacheWriteTokens !== undefined && { cache_creation: usage.cacheWriteTokens }),
+                        },
+                    }),
+                    ...(usage.reasoningTokens !== undefined && {
+                        output_token_details: { reasoning: usage.reasoningTokens },
+                    }),
+                } satisfies UsageMetadata,
+            }),
+        } as LangChainAIMessageFields);
+    }
+    if (message.role === 'system') {
+        return new LangChainSystemMessage(fields);
+    }
+    return new LangChainHumanMessage(fields);
+}
+
+/**
+ * Converts a `@langchain/core` message into an agent message.
+ */
+export function fromLangChainMessage(message: LangChainBaseMessage): BaseMessage {
+    const content = fromLangChainContent(message.content);
+    const fields = {
+        ...(message.id !== undefined && { id: message.id }),
+        ...(message.name !== undefined && { name: message.name }),
+    };
+
+    if (LangChainToolMessage.isInstance(message)) {
+        return new ToolMessage('tool', content, {
+            ...fields,
+            toolCallId: message.tool_call_id,
+            status: message.status ?? 'success',
+        });
+    }
+    if (LangChainAIMessage.isInstance(message)) {
+        const usage = message.usage_metadata as UsageMetadata | undefined;
+        return new AIMessage('assistant', content, {
+            ...fields,
+            toolCalls: (message.tool_calls ?? []).map(({ id, name, args }) => ({ id: id ?? '', name, args })),
+            ...(usage && {
+                usage: {
+                    inputTokens: usage.input_tokens,
+                    outputTokens: usage.output_tokens,
+                    totalTokens: usage.total_tokens,
+                    ...(usage.input_token_details?.cache_read !== undefined && {
+                        cacheReadTokens: usage.input_token_details.cache_read,
+                    }),
+                    ...(usage.input_token_details?.cache_creation !== undefined && {
+                        cacheWriteTokens: usage.input_token_details.cache_creation,
+                    }),
+                    ...(usage.output_token_details?.reasoning !== undefined && {
+                        reasoningTokens: usage.output_token_details.reasoning,
+                    }),
+                },
+            }),
+        });
+    }
+    if (LangChainSystemMessage.isInstance(message)) {
+        return new SystemMessage('system', content, fields);
+    }
+    if (LangChainHumanMessage.isInstance(message)) {
+        return new UserMessage('user', content, fields);
+    }
+    throw unsupported('LangChain', `a message of type "${message.type}"`);
+}
+
+export function toLangChainMessages(messages: BaseMessage[]): LangChainBaseMessage[] {
+    return messages.map(toLangChainMessage);
+}
+
+export function fromLangChainMessages(messages: LangChainBaseMessage[]): BaseMessage[] {
+    return messages.map(fromLangChainMessage);
+}
+
+// Tool use and tool result blocks are kept in the content in their Anthropic form,
+// which LangChain understands next to `tool_calls`
+function toLangChainContent(content: MessageContent): LangChainMessageContent {
+    if (typeof content === 'string') {
+        return content;
+    }
+    return content.map(block => {
+        switch (block.type) {
+            case 'text':
+                return { type: 'text', text: block.text };
+            case 'image':
+                return { type: 'image', url: block.url, ...(block.mimeType && { mimeType: block.mimeType }) };
+            case 'tool_use':
+                return { type: 'tool_use', id: block.id, name: block.name, input: block.input };
+            case 'tool_result':
+                return {
+                    type: 'tool_result',
+                    tool_use_id: block.toolUseId,
+                    content: toLangChainContent(block.content),
+                    ...(block.isError && { is_error: true }),
+                };
+        }
+    }) as LangChainMessageContent;
+}
+
+function fromLangChainContent(content: LangChainMessageContent): MessageContent {
+    if (typeof content === 'string') {
+        return content;
+    }
+    return (content as Record<string, any>[]).map((block): ContentBlock => {
+        switch (block.type) {
+            case 'text':
+                return { type: 'text', text: block.text };
+            case 'image_url': {
+                const url: string = typeof block.image_url === 'string' ? block.image_url : block.image_url.url;
+                const mimeType = parseDataUrl(url)?.mimeType;
+                return { type: 'image', url, ...(mimeType && { mimeType }) };
+            }
+            case 'image': {
+                const mimeType: string | undefined = block.mimeType ?? block.mime_type;
+                const url: string = block.url ?? `data:${mimeType};base64,${block.data}`;
+                return { type: 'image', url, ...(mimeType && { mimeType }) };
+            }
+            case 'tool_use':
+                return { type: 'tool_use', id: block.id, name: block.name, input: block.input };
+            case 'tool_result': {
+                const resultContent = fromLangChainContent(block.content ?? '');
+                if (typeof resultContent !== 'string' && resultContent.some(part => part.type !== 'text' && part.type !== 'image')) {
+                    throw unsupported('LangChain', 'a tool result with blocks other than text and images');
+                }
+                return {
+                    type: 'tool_result',
+                    toolUseId: block.tool_use_id,
+                    content: resultContent as string | (TextBlock | ImageBlock)[],
+                    ...(block.is_error && { isError: true }),
+                };
+            }
+            default:
+                throw unsupported('LangChain', `a "${block.type}" block`);
+        }
+    });
+}
+
+// OpenAI chat completions
+
+export interface OpenAITextPart {
+    type: 'text';
+    text: string;
+}
+
+export interface OpenAIImagePart {
+    type: 'image_url';
+    image_url: { url: string; detail?: 'auto' | 'low' | 'high' };
+}
+
+export interface OpenAIToolCall {
+    id: string;
+    type: 'function';
+    /** `arguments` is a JSON encoded object */
+    function: { name: string; arguments: string };
+}
+
+/**
+ * A message of the OpenAI chat completions API.
+ */
+export type OpenAIChatMessage =
+    | { role: 'system' | 'developer'; content: string | OpenAITextPart[]; name?: string }
+    | { role: 'user'; content: string | (OpenAITextPart | OpenAIImagePart)[]; name?: string }
+    | { role: 'assistant'; content: string | OpenAITextPart[] | null; name?: string; tool_calls?: OpenAIToolCall[] }
+    | { role: 'tool'; content: string | OpenAITextPart[]; tool_call_id: string };
+
+/**
+ * Converts an agent message into an OpenAI chat completions message. Images
+ * are only supported in user messages, like the API does, and the status of
+ * tool messages is lost.
+ */
+export function toOpenAIMessage(message: BaseMessage): OpenAIChatMessage {
+    const name = message.name !== undefined ? { name: message.name } : {};
+
+    if (isToolMessage(message)) {
+        return {
+            role: 'tool',
+            content: toOpenAITextContent(message.content),
+            tool_call_id: message.toolCallId ?? '',
+        };
+    }
+    if (isAIMessage(message) || message.role === 'assistant') {
+        const toolCalls = getToolCalls(message);
+        const content = toOpenAITextContent(message.content);
+        return {
+            role: 'assistant',
+            content: content === '' && toolCalls.length > 0 ? null : content,
+            ...name,
+            ...(toolCalls.length > 0 && {
+                tool_calls: toolCalls.map(toolCall => ({
+                    id: toolCall.id,
+                    type: 'function' as const,
+                    function: { name: toolCall.name, arguments: JSON.stringify(toolCall.args) },
+                })),
+            }),
+        };
+    }
+    if (message.role === 'system') {
+        return { role: 'system', content: toOpenAITextContent(message.content), ...name };
+    }
+
+    const content = typeof message.content === 'string'
+        ? message.content
+        : message.content.map((block): OpenAITextPart | OpenAIImagePart => {
+            switch (block.type) {
+                case 'text':
+                    return { type: 'text', text: block.text };
+                case 'image':
+                    return { type: 'image_url', image_url: { url: block.url } };
+                default:
+                    throw unsupported('OpenAI', `a "${block.type}" block`);
+            }
+        });
+    return { role: 'user', content, ...name };
+}
+
+/**
+ * Converts an OpenAI chat completions message into an agent message.
+ */
+export function fromOpenAIMessage(message: OpenAIChatMessage): BaseMessage {
+    switch (message.role) {
+        case 'tool':
+            return new ToolMessage('tool', fromOpenAIContent(message.content), {
+                toolCallId: message.tool_call_id,
+            });
+        case 'assistant':
+            return new AIMessage('assistant', fromOpenAIContent(message.content ?? ''), {
+                ...(message.name !== undefined && { name: message.name }),
+                toolCalls: (message.tool_calls ?? []).map(toolCall => ({
+                    id: toolCall.id,
+                    name: toolCall.function.name,
+                    args: parseToolArguments(toolCall),
+                })),
+            });
+        case 'system':
+        case 'developer':
+            return new SystemMessage('system', fromOpenAIContent(message.content), {
+                ...(message.name !== undefined && { name: message.name }),
+            });
+        case 'user':
+            return new UserMessage('user', fromOpenAIContent(message.content), {
+                ...(message.name !== undefined && { name: message.name }),
+            });
+        default:
+            throw unsupported('OpenAI', `a message with role "${(message as { role: string }).role}"`);
+    }
+}
+
+export function toOpenAIMessages(messages: BaseMessage[]): OpenAIChatMessage[] {
+    return messages.map(toOpenAIMessage);
+}
+
+export function fromOpenAIMessages(messages: OpenAIChatMessage[]): BaseMessage[] {
+    return messages.map(fromOpenAIMessage);
+}
+
+// Parse the JSON arguments of a tool call, models sometimes emit malformed JSON
+function parseToolArguments(toolCall: OpenAIToolCall): Record<string, any> {
+    try {
+        return JSON.parse(toolCall.function.arguments || '{}');
+    } catch (error) {
+        throw new Error(
+            `Cannot convert tool call "${toolCall.id}" of tool "${toolCall.function.name}" from the OpenAI format, ` +
+            `its arguments are not valid JSON: ${toolCall.function.arguments}`,
+            { cause: error }
+        );
+    }
+}
+
+// Content of messages that only take text, tool use blocks are carried by `tool_calls`
+function toOpenAITextContent(content: MessageContent): string | OpenAITextPart[] {
+    if (typeof content === 'string') {
+        return content;
+    }
+    return content.filter(block => block.type !== 'tool_use').map(block => {
+        if (block.type === 'text') {
+            return { type: 'text', text: block.text };
+        }
+        if (block.type === 'tool_result') {
+            return { type: 'text', text: toText(block.content) };
+        }
+        throw unsupported('OpenAI', `a "${block.type}" block outside of a user message`);
+    });
+}
+
+function fromOpenAIContent(content: string | (OpenAITextPart | OpenAIImagePart)[]): MessageContent {
+    if (typeof content === 'string') {
+        return content;
+    }
+    return content.map((part): TextBlock | ImageBlock => {
+        if (part.type === 'text') {
+            return { type: 'text', text: part.text };
+        }
+        const mimeType = parseDataUrl(part.image_url.url)?.mimeType;
+        return { type: 'image', url: part.image_url.url, ...(mimeType && { mimeType }) };
+    });
+}
+
+// Helper to flatten the content of a tool result for formats that only take text
+function toText(content: string | (TextBlock | ImageBlock)[]): string {
+    if (typeof content === 'string') {
+        return content;
+    }
+    return content.map(block => {
+        if (block.type !== 'text') {
+            throw unsupported('OpenAI', 'an image in a tool result');
+        }
+        return block.text;
+    }).join('');
+}
+
+// Anthropic Messages API
+
+/**
+ * Marks the end of a cacheable prompt prefix, see prompt-caching.ts.
+ */
+export interface AnthropicCacheControl {
+    type: 'ephemeral';
+    ttl?: '5m' | '1h';
+}
+
+export interface AnthropicTextBlock {
+    type: 'text';
+    text: string;
+    cache_control?: AnthropicCacheControl;
+}
+
+export interface AnthropicImageBlock {
+    type: 'image';
+    source: { type: 'base64'; media_type: string; data: string } | { type: 'url'; url: string };
+    cache_control?: AnthropicCacheControl;
+}
+
+export interface AnthropicToolUseBlock {
+    type: 'tool_use';
+    id: string;
+    name: string;
+    input: Record<string, any>;
+    cache_control?: AnthropicCacheControl;
+}
+
+export interface AnthropicToolResultBlock {
+    type: 'tool_result';
+    tool_use_id: string;
+    content?: string | (AnthropicTextBlock | AnthropicImageBlock)[];
+    is_error?: boolean;
+    cache_control?: AnthropicCacheControl;
+}
+
+export type AnthropicContentBlock =
+    | AnthropicTextBlock
+    | AnthropicImageBlock
+    | AnthropicToolUseBlock
+    | AnthropicToolResultBlock;
+
+export interface AnthropicMessage {
+    role: 'user' | 'assistant';
+    content: string | AnthropicContentBlock[];
+}
+
+/**
+ * The conversation part of an Anthropic Messages API request. System messages
+ * go into `system` as the API takes them separately.
+ */
+export interface AnthropicConversation {
+    system?: string | AnthropicTextBlock[];
+    messages: AnthropicMessage[];
+}
+
+/**
+ * A message that may carry a cache point, as set by the prompt caching middleware.
+ */
+export type CacheableMessage = BaseMessage & { cache_control?: AnthropicCacheControl };
+
+/**
+ * Converts agent messages into an Anthropic Messages API conversation.
+ * Tool messages become `tool_result` blocks of a user turn, results of
+ * consecutive tool messages share one turn. The `cache_control` of a message
+ * is set on its last content block.
+ */
+export function toAnthropicMessages(messages: CacheableMessage[]): AnthropicConversation {
+    const system: AnthropicTextBlock[] = [];
+    const conversation: AnthropicMessage[] = [];
+
+    for (const [index, message] of messages.entries()) {
+        if (isToolMessage(message)) {
+            const block: AnthropicToolResultBlock = withCacheControl({
+                type: 'tool_result',
+                tool_use_id: message.toolCallId ?? '',
+                content: toAnthropicResultContent(message.content),
+                ...(message.status === 'error' && { is_error: true }),
+            }, message);
+            const previous = conversation.at(-1);
+            if (isToolMessage(messages[index - 1]) && Array.isArray(previous?.content)) {
+                previous.content.push(block);
+            } else {
+                conversation.push({ role: 'user', content: [block] });
+            }
+            continue;
+        }
+
+        const toolCalls = getToolCalls(message);
+        const content = typeof message.content === 'string'
+            && toolCalls.length === 0
+            && message.cache_control === undefined
+            ? message.content
+            : toAnthropicBlocks(message.content, toolCalls, message);
+
+        if (message.role === 'system' && !isAIMessage(message)) {
+            system.push(...(typeof content === 'string'
+                ? [{ type: 'text' as const, text: content }]
+                : content as AnthropicTextBlock[]));
+        } else {
+            conversation.push({
+                role: isAIMessage(message) || message.role === 'assistant' ? 'assistant' : 'user',
+                content,
+            });
+        }
+    }
+
+    return { ...(system.length > 0 && { system }), messages: conversation };
+}
+
+/**
+ * Converts an Anthropic Messages API conversation into agent messages. Each
+ * `tool_result` block becomes a tool message, a cache point on the last block
+ * of a message is kept as its `cache_control`.
+ */
+export function fromAnthropicMessages(conversation: AnthropicConversation): CacheableMessage[] {
+    const messages: CacheableMessage[] = [];
+
+    if (conversation.system !== undefined && conversation.system.length > 0) {
+        messages.push(fromAnthropicBlocks(conversation.system, new SystemMessage('system', '')));
+    }
+
+    for (const message of conversation.messages) {
+        if (message.role === 'assistant') {
+            const blocks = typeof message.content === 'string'
+                ? [{ type: 'text' as const, text: message.content }]
+                : message.content;
+            const toolCalls = blocks
+                .filter((block): block is AnthropicToolUseBlock => block.type === 'tool_use')
+                .map(({ id, name, input }) => ({ id, name, args: input }));
+            messages.push(fromAnthropicBlocks(blocks, new AIMessage('assistant', '', { toolCalls })));
+            continue;
+        }
+
+        if (typeof message.content === 'string') {
+            messages.push(new UserMessage('user', message.content));
+            continue;
+        }
+        const userBlocks = message.content.filter(block => block.type !== 'tool_result');
+        if (userBlocks.length > 0) {
+            messages.push(fromAnthropicBlocks(userBlocks, new UserMessage('user', '')));
+        }
+        for (const block of message.content) {
+            if (block.type !== 'tool_result') {
+                continue;
+            }
+            const toolMessage: CacheableMessage = new ToolMessage('tool', fromAnthropicResultContent(block.content ?? ''), {
+                toolCallId: block.tool_use_id,
+                status: block.is_error ? 'error' : 'success',
+            });
+            if (block.cache_control) {
+                toolMessage.cache_control = block.cache_control;
+            }
+            messages.push(toolMessage);
+        }
+    }
+
+    return messages;
+}
+
+// Helper to copy the cache point of a message onto a block
+function withCacheControl<TBlock extends AnthropicContentBlock>(block: TBlock, message: CacheableMessage): TBlock {
+    return message.cache_control ? { ...block, cache_control: message.cache_control } : block;
+}
+
+function toAnthropicBlock(block: ContentBlock): AnthropicContentBlock {
+    switch (block.type) {
+        case 'text':
+            return { type: 'text', text: block.text };
+        case 'image': {
+            const data = parseDataUrl(block.url);
+            return {
+                type: 'image',
+                source: data
+                    ? { type: 'base64', media_type: data.mimeType, data: data.data }
+                    : { type: 'url', url: block.url },
+            };
+        }
+        case 'tool_use':
+            return { type: 'tool_use', id: block.id, name: block.name, input: block.input };
+        case 'tool_result':
+            return {
+                type: 'tool_result',
+                tool_use_id: block.toolUseId,
+                content: toAnthropicResultContent(block.content),
+                ...(block.isError && { is_error: true }),
+            };
+    }
+}
+
+// Content blocks of a message, followed by its tool calls that aren't part of the content yet
+function toAnthropicBlocks(content: MessageContent, toolCalls: ToolCall[], message: CacheableMessage): AnthropicContentBlock[] {
+    const blocks = typeof content === 'string'
+        ? (content === '' ? [] : [{ type: 'text' as const, text: content }])
+        : content.map(toAnthropicBlock);
+    for (const toolCall of toolCalls) {
+        if (!blocks.some(block => block.type === 'tool_use' && block.id === toolCall.id)) {
+            blocks.push({ type: 'tool_use', id: toolCall.id, name: toolCall.name, input: toolCall.args });
+        }
+    }
+
+    const last = blocks.at(-1);
+    if (last) {
+        blocks[blocks.length - 1] = withCacheControl(last, message);
+    }
+    return blocks;
+}
+
+function toAnthropicResultContent(content: MessageContent): string | (AnthropicTextBlock | AnthropicImageBlock)[] {
+    if (typeof content === 'string') {
+        return content;
+    }
+    return content.map(block => {
+        if (block.type !== 'text' && block.type !== 'image') {
+            throw unsupported('Anthropic', `a "${block.type}" block in a tool result`);
+        }
+        return toAnthropicBlock(block) as AnthropicTextBlock | AnthropicImageBlock;
+    });
+}
+
+function fromAnthropicBlock(block: AnthropicContentBlock): ContentBlock {
+    switch (block.type) {
+        case 'text':
+            return { type: 'text', text: block.text };
+        case 'image':
+            return block.source.type === 'base64'
+                ? {
+                    type: 'image',
+                    url: `data:${block.source.media_type};base64,${block.source.data}`,
+                    mimeType: block.source.media_type,
+                }
+                : { type: 'image', url: block.source.url };
+        case 'tool_use':
+            return { type: 'tool_use', id: block.id, name: block.name, input: block.input };
+        case 'tool_result':
+            return {
+                type: 'tool_result',
+                toolUseId: block.tool_use_id,
+                content: fromAnthropicResultContent(block.content ?? ''),
+                ...(block.is_error && { isError: true }),
+            };
+        default:
+            throw unsupported('Anthropic', `a "${(block as { type: string }).type}" block`);
+    }
+}
+
+function fromAnthropicResultContent(content: string | (AnthropicTextBlock | AnthropicImageBlock)[]): string | (TextBlock | ImageBlock)[] {
+    if (typeof content === 'string') {
+        return content;
+    }
+    return content.map(block => fromAnthropicBlock(block) as TextBlock | ImageBlock);
+}
+
+// Set the content of `message` from Anthropic blocks, a single text block becomes plain text
+function fromAnthropicBlocks(
+    blocks: string | AnthropicContentBlock[],
+    message: CacheableMessage,
+    cacheControl = typeof blocks === 'string' ? undefined : blocks.at(-1)?.cache_control
+): CacheableMessage {
+    if (typeof blocks === 'string') {
+        message.content = blocks;
+    } else if (blocks.length === 0) {
+        message.content = '';
+    } else if (blocks.length === 1 && blocks[0]!.type === 'text') {
+        message.content = blocks[0]!.text;
+    } else {
+        message.content = blocks.map(fromAnthropicBlock);
+    }
+    if (cacheControl) {
+        message.cache_control = cacheControl;
+    }
+    return message;
+}
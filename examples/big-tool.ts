@@ -1,5 +1,8 @@
 import { z } from 'zod';
-import { createMiddleware, createAgent, BaseMessage } from '../agent.js';
+import { createMiddleware, createAgent, BaseMessage, getMessageText } from '../agent.js';
+import { ToolRegistry } from '../tools.js';
+import { withReducer } from '../reducers.js';
+import { FakeModel } from '../model.js';
 
 /**
  * Tool categories for the tools to select from
@@ -33,7 +36,17 @@ export const bigToolMiddleware = createMiddleware({
   name: 'BigToolMiddleware',
   stateSchema: z.object({
     // Track tool usage for optimization
-    toolUsageCount: z.record(z.string(), z.number()).optional(),
+    toolUsageCount: withReducer(
+      z.record(z.string(), z.number()).optional(),
+      // Add up the calls of every step
+      (current, update) => {
+        const counts = { ...current };
+        for (const [tool, count] of Object.entries(update ?? {})) {
+          counts[tool] = (counts[tool] || 0) + count;
+        }
+        return counts;
+      }
+    ),
   }),
   contextSchema: z.object({
     // All available tools grouped by category
@@ -50,11 +63,11 @@ export const bigToolMiddleware = createMiddleware({
     // Get the last user message for analysis
     const lastUserMessage = messages
       .filter(msg => msg.role === 'user')
-      .pop()?.content || '';
+      .pop();
     
     // Select relevant tool categories based on keywords
     const selectedCategories = new Set<string>();
-    const lowerMessage = lastUserMessage.toLowerCase();
+    const lowerMessage = lastUserMessage ? getMessageText(lastUserMessage).toLowerCase() : '';
     
     if (runtime.context.enableKeywordMatching) {
       for (const [category, keywords] of Object.entries(KEYWORD_MAP)) {
@@ -94,7 +107,7 @@ export const bigToolMiddleware = createMiddleware({
   afterModel: async (state, runtime) => {
     // Update tool usage statistics based on what was actually called
     const usedTools = runtime.toolCalls.map(call => call.name);
-    const updatedUsageCount = { ...state.toolUsageCount };
+    const updatedUsageCount: Record<string, number> = {};
     
     for (const tool of usedTools) {
       updatedUsageCount[tool] = (updatedUsageCount[tool] || 0) + 1;
@@ -106,9 +119,27 @@ export const bigToolMiddleware = createMiddleware({
   },
 });
 
+// Register an implementation for every tool so the selected names can be resolved
+const registry = new ToolRegistry(
+  Object.values(TOOL_CATEGORIES).flat().map(name => ({
+    name,
+    description: `Placeholder implementation of ${name}`,
+    invoke: async (args: Record<string, unknown>) => ({ tool: name, args }),
+  }))
+);
+
 // Example usage
 const agent = createAgent({
+  // Scripted model responses to keep the example offline
+  model: new FakeModel([
+    {
+      content: 'Let me search for that first.',
+      toolCalls: [{ id: 'call_1', name: 'web_search', args: { query: 'TypeScript generics' } }],
+    },
+    'I found an overview of TypeScript generics covering type parameters, constraints and defaults.',
+  ]),
   middlewares: [bigToolMiddleware] as const,
+  toolRegistry: registry,
 });
 
 // Example with a large tool set
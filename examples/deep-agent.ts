@@ -1,5 +1,5 @@
 import { z } from 'zod';
-import { createMiddleware, createAgent, BaseMessage, AssistantMessage } from '../agent.js';
+import { createMiddleware, createAgent, BaseMessage, AssistantMessage, getMessageText } from '../agent.js';
 
 /**
  * Deep Agent Middleware - Implements the four core characteristics:
@@ -85,7 +85,7 @@ Guidelines:
         // Parse assistant response to detect todo updates or file writes
         const lastMessage = state.messages.at(-1);
         if (lastMessage && lastMessage.role === 'assistant') {
-            const content = lastMessage.content;
+            const content = getMessageText(lastMessage);
             
             // Detect todo list updates (simple pattern matching)
             if (content.includes('TODO:') || content.includes('Task:')) {
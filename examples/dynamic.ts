@@ -1,5 +1,16 @@
 import { z } from 'zod';
-import { createMiddleware, createAgent, BaseMessage } from '../agent.js';
+import { createMiddleware, createAgent, BaseMessage, LanguageModelLike, getMessageText } from '../agent.js';
+import { ToolRegistry } from '../tools.js';
+import { PricingTable } from '../pricing.js';
+import { FakeModel, modelRegistry } from '../model.js';
+
+// Offline stand-in for the `openai` provider, every model answers with a scripted reply
+modelRegistry.register('openai', modelName => new FakeModel([
+    {
+        content: `(${modelName}) The pattern separates reads from writes so each side can scale on its own.`,
+        usage: { inputTokens: 1200, outputTokens: 300, totalTokens: 1500 },
+    },
+], { modelId: `openai:${modelName}` }));
 
 /**
  * Dynamic Model Middleware - Selects different models based on task complexity
@@ -14,9 +25,10 @@ export const dynamicModelMiddleware = createMiddleware({
         taskComplexity: z.enum(['simple', 'complex']).default('simple'),
     }),
     contextSchema: z.object({
+        // Model instances or ids resolved through the model registry
         models: z.object({
-            fast: z.any(),
-            powerful: z.any(),
+            fast: z.custom<string | LanguageModelLike>(),
+            powerful: z.custom<string | LanguageModelLike>(),
         }),
     }),
     prepareCall: (options, state, runtime) => {
@@ -25,7 +37,7 @@ export const dynamicModelMiddleware = createMiddleware({
         const complexIndicators = ['analyze', 'explain', 'complex', 'debug', 'architecture', 'design'];
         
         const isComplex = complexIndicators.some(indicator => 
-            lastMessage?.content?.toLowerCase().includes(indicator)
+            lastMessage && getMessageText(lastMessage).toLowerCase().includes(indicator)
         );
         
         // Select appropriate model
@@ -42,6 +54,16 @@ export const dynamicModelMiddleware = createMiddleware({
     },
 });
 
+/**
+ * Tool names relevant for each detected intent
+ */
+const INTENT_TOOLS: Record<'file_ops' | 'search' | 'calculation' | 'general', string[]> = {
+    file_ops: ['read_file', 'write_file', 'delete_file'],
+    search: ['web_search', 'docs_search'],
+    calculation: ['calculate'],
+    general: [],
+};
+
 /**
  * Dynamic Tools Middleware - Adds/removes tools based on user intent
  * 
@@ -57,7 +79,7 @@ export const dynamicToolsMiddleware = createMiddleware({
     prepareCall: (options, state, runtime) => {
         // Detect intent from the last user message
         const lastMessage = state.messages.at(-1);
-        const messageContent = lastMessage?.content?.toLowerCase() || '';
+        const messageContent = lastMessage ? getMessageText(lastMessage).toLowerCase() : '';
         
         let intent: 'file_ops' | 'search' | 'calculation' | 'general' = 'general';
         
@@ -69,8 +91,8 @@ export const dynamicToolsMiddleware = createMiddleware({
             intent = 'calculation';
         }
         
-        // Get tools for detected intent
-        const tools = options.tools?.find(tool => tool.name === intent) || [];
+        // Get tools for detected intent, names are resolved by the agent's tool registry
+        const tools = INTENT_TOOLS[intent];
         
         console.log(`Detected intent: ${intent}, providing ${tools.length} tools`);
         
@@ -127,10 +149,11 @@ export const dynamicPromptsMiddleware = createMiddleware({
         }
         
         // Add task-specific instructions
-        const lastMessage = state.messages.at(-1)?.content || '';
-        if (lastMessage.includes('code') || lastMessage.includes('function')) {
+        const lastMessage = state.messages.at(-1);
+        const lastContent = lastMessage ? getMessageText(lastMessage) : '';
+        if (lastContent.includes('code') || lastContent.includes('function')) {
             systemMessage += 'Focus on code quality and best practices. ';
-        } else if (lastMessage.includes('explain') || lastMessage.includes('why')) {
+        } else if (lastContent.includes('explain') || lastContent.includes('why')) {
             systemMessage += 'Provide detailed explanations with examples. ';
         }
         
@@ -159,12 +182,25 @@ const agent = createAgent({
         dynamicPromptsMiddleware,
     ] as const,
     tools: [/** */], // Will be dynamically populated
+    // Each call is priced with the rates of the model that handled it (USD per million tokens)
+    pricing: new PricingTable({
+        'openai:gpt-4o': { input: 2.5, output: 10, cacheRead: 1.25 },
+        'openai:gpt-4o-mini': { input: 0.15, output: 0.6, cacheRead: 0.075 },
+    }),
+    // All tools the middleware can pick from by name
+    toolRegistry: new ToolRegistry(
+        Object.values(INTENT_TOOLS).flat().map(name => ({
+            name,
+            description: `Placeholder implementation of ${name}`,
+            invoke: async (args: Record<string, unknown>) => ({ tool: name, args }),
+        }))
+    ),
 });
 
-// Mock models and tools for the example
+// Models for the example, resolved through the model registry
 const models = {
-    fast: 'gpt-3.5-turbo',
-    powerful: 'gpt-4',
+    fast: 'openai:gpt-4o-mini',
+    powerful: 'openai:gpt-4o',
 };
 
 // Invoke with dynamic context
@@ -178,4 +214,5 @@ const result = await agent.invoke({
     },
 } as any);
 
-console.log(result);
\ No newline at end of file
+console.log(result);
+console.log(`Cost: $${result.__cost__.run.totalCost.toFixed(6)}`, result.__cost__.run.byModel);
\ No newline at end of file
@@ -0,0 +1,85 @@
+import { z } from 'zod';
+import { tool } from "langchain";
+import { createMiddleware, createAgent, AIMessage, BaseMessage, Command } from '../agent.js';
+import { InMemoryCheckpointer } from '../checkpoint.js';
+import { FakeModel } from '../model.js';
+
+/**
+ * Middleware that asks a person for sign-off before sensitive tools run
+ */
+export const approvalMiddleware = createMiddleware({
+  name: 'ApprovalMiddleware',
+  contextSchema: z.object({
+    sensitiveTools: z.array(z.string()).default([]),
+  }),
+  beforeTools: (state, runtime, controls) => {
+    const sensitiveCalls = runtime.toolCalls.filter(
+      call => runtime.context.sensitiveTools.includes(call.name)
+    );
+    if (sensitiveCalls.length === 0) {
+      return;
+    }
+
+    // First run of this hook: pause the run and ask for approval
+    if (runtime.resumeValue === undefined) {
+      return controls.interrupt({
+        question: 'Do you approve these tool calls?',
+        toolCalls: sensitiveCalls,
+      });
+    }
+
+    // Resumed with the decision of the reviewer
+    const { approved } = runtime.resumeValue as { approved: boolean };
+    if (!approved) {
+      return controls.terminate({
+        messages: [...state.messages, new AIMessage('assistant', 'The request was not approved.')],
+      });
+    }
+  },
+});
+
+const issueRefund = tool(
+  async (input) => {
+    const { orderId, amount } = input as { orderId: string; amount: number };
+    return { orderId, refunded: amount };
+  },
+  {
+    name: 'issueRefund',
+    description: 'Refund an order',
+    schema: z.object({
+      orderId: z.string(),
+      amount: z.number().positive(),
+    }),
+  }
+);
+
+const agent = createAgent({
+  // Scripted model responses to keep the example offline
+  model: new FakeModel([
+    {
+      content: 'Let me refund that order for you.',
+      toolCalls: [{ id: 'call_1', name: 'issueRefund', args: { orderId: 'A-1001', amount: 49.99 } }],
+    },
+    'Your order A-1001 has been refunded.',
+  ]),
+  tools: [issueRefund],
+  middlewares: [approvalMiddleware] as const,
+  checkpointer: new InMemoryCheckpointer(),
+});
+
+const context = { sensitiveTools: ['issueRefund'] };
+const config = { threadId: 'refund-request' };
+
+// The run stops before the refund is issued
+const result = await agent.invoke(
+  {
+    messages: [new BaseMessage('user', 'Please refund order A-1001')],
+  },
+  context,
+  config
+);
+console.log('Interrupted:', result.__interrupt__?.payload);
+
+// A person approves, the run continues where it stopped
+const resumed = await agent.invoke(Command.resume({ approved: true }), context, config);
+console.log('Final answer:', resumed.messages.at(-1)?.content);
@@ -0,0 +1,74 @@
+import { randomUUID } from 'node:crypto';
+import { z } from 'zod';
+import { createMiddleware, createAgent, BaseMessage, ModelResponse } from '../agent.js';
+import { FakeModel, ModelRegistry } from '../model.js';
+
+/**
+ * Middleware that retries a failing model call with fallback models
+ */
+export const modelFallbackMiddleware = createMiddleware({
+  name: 'ModelFallbackMiddleware',
+  contextSchema: z.object({
+    fallbackModels: z.array(z.string()).default([]),
+  }),
+  wrapModelCall: async (request, handler, state, runtime) => {
+    try {
+      return await handler(request);
+    } catch (error) {
+      for (const model of runtime.context.fallbackModels) {
+        try {
+          console.log(`Model call failed, falling back to ${model}`);
+          return await handler({ ...request, model });
+        } catch {
+          // Try the next fallback
+        }
+      }
+      throw error;
+    }
+  },
+});
+
+/**
+ * Middleware that answers repeated conversations from a cache instead of calling the model
+ */
+const responseCache = new Map<string, ModelResponse>();
+export const responseCacheMiddleware = createMiddleware({
+  name: 'ResponseCacheMiddleware',
+  wrapModelCall: async (request, handler) => {
+    const key = JSON.stringify(request.messages?.map(message => [message.role, message.content]));
+    const cached = responseCache.get(key);
+    if (cached) {
+      console.log('Answered from cache');
+      // A copy with a fresh id, the cached message itself would replace the earlier answer
+      const message = Object.assign(Object.create(Object.getPrototypeOf(cached.message)), cached.message, { id: randomUUID() });
+      return { ...cached, message };
+    }
+
+    const start = Date.now();
+    const response = await handler(request);
+    console.log(`Model call took ${Date.now() - start}ms`);
+    responseCache.set(key, response);
+    return response;
+  },
+});
+
+// Example usage
+const agent = createAgent({
+  // The primary model has no scripted responses, so every call to it fails
+  model: new FakeModel([]),
+  modelRegistry: new ModelRegistry().register(
+    'backup',
+    () => new FakeModel(['Hello from the backup model!'], { modelId: 'backup:small' })
+  ),
+  middlewares: [responseCacheMiddleware, modelFallbackMiddleware] as const,
+});
+
+const context = { fallbackModels: ['backup:small'] };
+const input = { messages: [new BaseMessage('user', 'Hi there')] };
+
+const result1 = await agent.invoke(input, context);
+console.log('Answer:', result1.messages.at(-1)?.content);
+
+// Same conversation again, served by the cache middleware
+const result2 = await agent.invoke(input, context);
+console.log('Answer:', result2.messages.at(-1)?.content);
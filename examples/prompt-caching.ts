@@ -1,13 +1,6 @@
 import { z } from 'zod';
 import { createMiddleware, createAgent, BaseMessage } from '../agent.js';
-
-// Extend BaseMessage type to include cache_control
-interface CachedMessage extends BaseMessage {
-  cache_control?: {
-    type: 'ephemeral';
-    ttl: '5m' | '1h';
-  };
-}
+import type { CacheableMessage } from '../converters.js';
 
 /**
  * Prompt Caching Middleware - Optimizes API usage by caching conversation prefixes
@@ -17,6 +10,8 @@ interface CachedMessage extends BaseMessage {
  */
 export const promptCachingMiddleware = createMiddleware({
   name: 'PromptCachingMiddleware',
+  // Place cache points on the messages left after summarization and trimming
+  after: ['SummarizationMiddleware', 'TrimmingMiddleware'],
   stateSchema: z.object({
     // Track cache usage for monitoring
     cacheHits: z.number().default(0),
@@ -43,8 +38,11 @@ export const promptCachingMiddleware = createMiddleware({
       return undefined;
     }
 
-    // Clone messages to avoid mutation and cast to CachedMessage
-    const cachedMessages: CachedMessage[] = messages.map(msg => ({ ...msg }));
+    // Clone messages to avoid mutation, keeping their class. toAnthropicMessages() moves
+    // cache_control onto their last content block
+    const cachedMessages: CacheableMessage[] = messages.map(msg =>
+      Object.assign(Object.create(Object.getPrototypeOf(msg)), msg)
+    );
     
     // Add cache control to system messages if enabled
     let systemMessageCached = false;
@@ -91,7 +89,7 @@ export const promptCachingMiddleware = createMiddleware({
 
     // Add system message if provided in options
     if (options.systemMessage && runtime.context.cacheSystemMessages) {
-      const systemMsg: CachedMessage = new BaseMessage('system', options.systemMessage) as CachedMessage;
+      const systemMsg: CacheableMessage = new BaseMessage('system', options.systemMessage) as CacheableMessage;
       systemMsg.cache_control = { 
         type: 'ephemeral',
         ttl: runtime.context.cacheTTL 
@@ -1,5 +1,6 @@
 import { z } from 'zod';
-import { createMiddleware, createAgent, BaseMessage, AIMessage } from '../agent.js';
+import { createMiddleware, createAgent, BaseMessage, AIMessage, getMessageText } from '../agent.js';
+import { append, overwrite, withReducer } from '../reducers.js';
 
 /**
  * Reflection Middleware - Implements Basic Reflection for improved response quality
@@ -29,8 +30,8 @@ export const reflectionMiddleware = createMiddleware({
         reflectionIteration: z.number().default(0),
         // Store the current draft response
         currentDraft: z.string().default(''),
-        // Store reflection feedback
-        reflections: z.array(z.string()).default([]),
+        // Store reflection feedback, new feedback is appended
+        reflections: withReducer(z.array(z.string()).default([]), append),
         // Track if we're in generator or reflector mode
         reflectionMode: z.enum(['generator', 'reflector', 'done']).default('generator'),
     }),
@@ -94,7 +95,7 @@ export const reflectionMiddleware = createMiddleware({
 
         // Get the last message (the model's response)
         const lastMessage = state.messages.at(-1);
-        const response = lastMessage?.content || '';
+        const response = lastMessage ? getMessageText(lastMessage) : '';
 
         if (state.reflectionMode === 'generator') {
             // Store the generated draft
@@ -106,29 +107,27 @@ export const reflectionMiddleware = createMiddleware({
             // Jump back to model for reflection
             return controls.jumpTo('model', newState);
         } else if (state.reflectionMode === 'reflector') {
-            // Store the reflection feedback
-            const newReflections = [...state.reflections, response];
             const nextIteration = state.reflectionIteration + 1;
             
             // Check if we've reached max iterations
             if (nextIteration >= (runtime.context.reflection?.maxIterations ?? 0)) {
                 // Final generation with all feedback
                 return controls.jumpTo('model', {
-                    reflections: newReflections,
+                    reflections: [response], // Appended to the stored feedback
                     reflectionIteration: nextIteration,
                     reflectionMode: 'done' as const,
-                    messages: [
+                    messages: overwrite([
                         ...state.messages.slice(0, -2), // Remove reflection exchange
                         new AIMessage('assistant', state.currentDraft), // Keep final draft
-                    ],
+                    ]),
                 });
             } else {
                 // Continue to next iteration
                 return controls.jumpTo('model', {
-                    reflections: newReflections,
+                    reflections: [response],
                     reflectionIteration: nextIteration,
                     reflectionMode: 'generator' as const,
-                    messages: state.messages.slice(0, -2), // Remove reflection exchange
+                    messages: overwrite(state.messages.slice(0, -2)), // Remove reflection exchange
                 });
             }
         }
@@ -1,5 +1,5 @@
 import { z } from 'zod';
-import { createMiddleware, createAgent, BaseMessage } from '../agent.js';
+import { createMiddleware, createAgent, BaseMessage, getMessageText } from '../agent.js';
 
 /**
  * Simple Swarm Middleware Example
@@ -33,7 +33,7 @@ export const simpleSwarmMiddleware = createMiddleware({
   
   afterModel: async (state, _, controls) => {
     const lastMessage = state.messages.at(-1);
-    const content = lastMessage?.content || '';
+    const content = lastMessage ? getMessageText(lastMessage) : '';
     
     // Check for delegation
     if (content.includes('DELEGATE_TO:')) {
@@ -1,57 +1,69 @@
 import { z } from 'zod';
 import { createMiddleware, createAgent, BaseMessage } from '../agent.js';
+import { overwrite } from '../reducers.js';
+import { countMessageTokens } from '../tokenizer.js';
+import { FakeModel } from '../model.js';
 
 // Simple summarization middleware that summarizes long conversations
 export const summarizationMiddleware = createMiddleware({
   name: 'SummarizationMiddleware',
   stateSchema: z.object({
     messageCount: z.number().default(0),
+    tokenCount: z.number().default(0),
     lastSummary: z.string().optional(),
   }),
   contextSchema: z.object({
-    maxMessagesBeforeSummary: z.number().default(10),
+    maxTokensBeforeSummary: z.number().default(4000),
   }),
   beforeModel: async (state, runtime, controls) => {
     const messageCount = state.messages.length;
+    // Tokens of the conversation including tool call JSON, with the approximate tokenizer
+    const tokenCount = countMessageTokens(state.messages);
     
     // Check if we need to summarize
-    if (messageCount > runtime.context.maxMessagesBeforeSummary) {
+    if (tokenCount > runtime.context.maxTokensBeforeSummary) {
       // Create a simple summary of the conversation
-      const summary = `Previous conversation summary: ${messageCount} messages exchanged.`;
+      const summary = `Previous conversation summary: ${messageCount} messages (${tokenCount} tokens) exchanged.`;
       
       // Keep only the last few messages plus the summary
       const recentMessages = state.messages.slice(-3);
       const summaryMessage = new BaseMessage('system', summary);
       
+      // Replace the conversation instead of appending to it
       return {
-        messages: [summaryMessage, ...recentMessages],
+        messages: overwrite([summaryMessage, ...recentMessages]),
         messageCount: recentMessages.length + 1,
+        tokenCount: countMessageTokens([summaryMessage, ...recentMessages]),
         lastSummary: summary,
       };
     }
     
-    // Update message count
+    // Update message and token count
     return {
       messageCount,
+      tokenCount,
     };
   },
 });
 
 // Example usage
 const agent = createAgent({
+  // Scripted model response to keep the example offline
+  model: new FakeModel(['AI is the field of building systems that learn from data and act on it.']),
   contextSchema: z.object({
     userId: z.string(),
   }),
   middlewares: [summarizationMiddleware] as const,
 });
 
-// Usage example (commented out to avoid execution)
+// Usage example
 const result = await agent.invoke({
     messages: [new BaseMessage('user', "Tell me about AI")],
 }, {
   userId: "user123",
-  maxMessagesBeforeSummary: 5, // Summarize after 5 messages
+  maxTokensBeforeSummary: 2000, // Summarize after 2000 tokens
 });
 
 console.log('Message count:', result.messageCount);
+console.log('Token count:', result.tokenCount);
 console.log('Last summary:', result.lastSummary);
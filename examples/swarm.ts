@@ -1,5 +1,6 @@
 import { z } from 'zod';
-import { createMiddleware, createAgent, BaseMessage, AIMessage } from '../agent.js';
+import { createMiddleware, createAgent, BaseMessage, AIMessage, getMessageText, isAIMessage } from '../agent.js';
+import { append, withReducer } from '../reducers.js';
 
 /**
  * Swarm Agent Middleware
@@ -64,6 +65,15 @@ const AGENT_DEFINITIONS: Record<AgentType, {
   }
 };
 
+// Append new outputs to the ones each agent already produced
+const appendOutputs = (current: Record<string, string[]>, update: Record<string, string[]>) => {
+  const outputs = { ...current };
+  for (const [agent, newOutputs] of Object.entries(update)) {
+    outputs[agent] = [...(outputs[agent] ?? []), ...newOutputs];
+  }
+  return outputs;
+};
+
 // Create the swarm middleware
 export const swarmMiddleware = createMiddleware({
   name: 'SwarmAgentMiddleware',
@@ -71,13 +81,13 @@ export const swarmMiddleware = createMiddleware({
   // State schema tracks current agent and handoff history
   stateSchema: z.object({
     currentAgent: z.enum(['coordinator', 'researcher', 'coder', 'reviewer']).default('coordinator'),
-    handoffHistory: z.array(z.object({
+    handoffHistory: withReducer(z.array(z.object({
       from: z.enum(['coordinator', 'researcher', 'coder', 'reviewer']),
       to: z.enum(['coordinator', 'researcher', 'coder', 'reviewer']),
       reason: z.string(),
       timestamp: z.string()
-    })).default([]),
-    agentOutputs: z.record(z.string(), z.array(z.string())).default({})
+    })).default([]), append),
+    agentOutputs: withReducer(z.record(z.string(), z.array(z.string())).default({}), appendOutputs)
   }),
   
   // Context schema for configuration
@@ -113,19 +123,15 @@ REASON: <reason for handoff>`;
     const messages = state.messages;
     const lastMessage = messages[messages.length - 1];
     
-    if (!lastMessage || !(lastMessage instanceof AIMessage)) {
+    if (!lastMessage || !isAIMessage(lastMessage)) {
       return;
     }
     
-    const content = lastMessage.content;
+    const content = getMessageText(lastMessage);
     const currentAgent = state.currentAgent;
     
     // Store agent output
-    const agentOutputs = { ...state.agentOutputs };
-    if (!agentOutputs[currentAgent]) {
-      agentOutputs[currentAgent] = [];
-    }
-    agentOutputs[currentAgent]!.push(content);
+    const agentOutputs = { [currentAgent]: [content] };
     
     // Check for handoff directive
     const handoffMatch = content.match(/HANDOFF_TO:\s*(\w+)\s*\nREASON:\s*(.+)/);
@@ -149,10 +155,8 @@ REASON: <reason for handoff>`;
           console.log(`⚠️  Handoff limit reached (${runtime.context.maxHandoffs}), terminating`);
         }
         return controls.terminate({
-          ...state,
           agentOutputs,
           messages: [
-            ...messages,
             new AIMessage('assistant', `[System] Handoff limit reached. Task completed by ${currentAgent}.`)
           ]
         });
@@ -160,7 +164,6 @@ REASON: <reason for handoff>`;
       
       // Perform handoff
       const handoffHistory = [
-        ...state.handoffHistory,
         {
           from: currentAgent,
           to: targetAgent,
@@ -177,6 +180,8 @@ REASON: <reason for handoff>`;
       // Remove handoff directive from message and add handoff note
       const cleanedContent = content.replace(/\n*HANDOFF_TO:[\s\S]+$/, '').trim();
       const handoffNote = `\n\n[Handing off to ${AGENT_DEFINITIONS[targetAgent].name}]`;
+      // Reuse the id so the cleaned message replaces the original one
+      const cleanedMessage = new AIMessage('assistant', cleanedContent + handoffNote, { id: lastMessage.id });
       
       // Jump back to model with new agent
       return controls.jumpTo('model', {
@@ -184,8 +189,7 @@ REASON: <reason for handoff>`;
         handoffHistory,
         agentOutputs,
         messages: [
-          ...messages.slice(0, -1),
-          new AIMessage('assistant', cleanedContent + handoffNote),
+          cleanedMessage,
           new BaseMessage('system', `You are now ${AGENT_DEFINITIONS[targetAgent].name}. Previous agent (${AGENT_DEFINITIONS[currentAgent].name}) handed off this task to you because: ${reason}`)
         ]
       });
@@ -222,7 +226,7 @@ console.log('\n💬 Conversation:');
 result.messages.forEach((msg, i) => {
   if (msg.role === 'user') {
     console.log(`\nUser: ${msg.content}`);
-  } else if (msg instanceof AIMessage) {
+  } else if (isAIMessage(msg)) {
     console.log(`\nAssistant: ${msg.content}`);
   }
 });
\ No newline at end of file
@@ -15,16 +15,16 @@ export const toolCallLimitMiddleware = createMiddleware({
       maxCalls: z.number().default(5),
     })),
   }),
-  afterModel: (state, runtime, controls) => {
-    // Check if the model made any tool calls
-    const toolCalls = runtime.toolCalls;
+  afterTools: (state, runtime, controls) => {
+    // Check which tools were just called
+    const toolResults = runtime.toolResults;
     const { targetTool, maxCalls } = runtime.context.toolCallLimitation.find(
-        limitation => limitation.targetTool === toolCalls[0]?.name
+        limitation => limitation.targetTool === toolResults[0]?.name
     ) || {};
     
     // Count calls to the target tool
     const updatedCounts = { ...state.toolCallCount };
-    for (const call of toolCalls) {
+    for (const call of toolResults) {
       if (call.name === targetTool) {
         updatedCounts[targetTool] = (updatedCounts[targetTool] || 0) + 1;
       }
@@ -1,45 +1,39 @@
 import { z } from 'zod';
 import { tool } from "langchain";
 import { createMiddleware, createAgent, BaseMessage, ToolResult } from '../agent.js';
+import { ToolError } from '../tools.js';
+import { FakeModel } from '../model.js';
 
 /**
  * Three different error handling strategies for tool errors
  */
 
 /**
- * Strategy 1: Jump back to model with AI message to fix arguments
+ * Strategy 1: Retry the model with AI message to fix arguments
  */
 export const aiFixArgumentsMiddleware = createMiddleware({
   name: 'AIFixArgumentsMiddleware',
-  stateSchema: z.object({
-    errorAttempts: z.record(z.string(), z.number()).default({}),
-  }),
-  
   contextSchema: z.object({
     maxRetries: z.number().default(2),
   }),
   
-  afterModel: async (state, runtime, controls) => {
+  afterTools: async (state, runtime, controls) => {
     const toolErrors = runtime.toolResults.filter(tr => tr.error);
     
     for (const toolError of toolErrors) {
       const toolCall = runtime.toolCalls.find(tc => tc.id === toolError.id);
       if (!toolCall) continue;
       
-      const attempts = state.errorAttempts[toolCall.id] || 0;
-      if (attempts >= runtime.context.maxRetries) continue;
-      
       // Check if it's an argument validation error
-      if (toolError.error?.includes('Invalid') || 
-          toolError.error?.includes('Expected') ||
-          toolError.error?.includes('Required')) {
+      if (toolError.errorDetails?.kind === 'validation') {
         
-        // Jump back to model with an AI message guiding the fix
-        return controls.jumpTo('model', {
-          errorAttempts: {
-            ...state.errorAttempts,
-            [toolCall.id]: attempts + 1,
-          },
+        // Retry the model with an AI message guiding the fix, the runtime
+        // gives up after `maxRetries` consecutive attempts
+        return controls.retry({
+          reason: `Invalid arguments for ${toolCall.name}`,
+          maxAttempts: runtime.context.maxRetries,
+          retryFrom: 'before_model',
+        }, {
           messages: [
             ...state.messages,
             new BaseMessage('assistant', 
@@ -61,76 +55,48 @@ export const aiFixArgumentsMiddleware = createMiddleware({
 });
 
 /**
- * Strategy 2: Jump back to tools node with updated arguments
+ * Strategy 2: Re-run the tool with automatically fixed arguments
  */
 export const autoFixArgumentsMiddleware = createMiddleware({
   name: 'AutoFixArgumentsMiddleware',
-  stateSchema: z.object({
-    fixedCalls: z.record(z.string(), z.boolean()).default({}),
-  }),
-  
-  afterModel: async (state, runtime, controls) => {
-    const toolErrors = runtime.toolResults.filter(tr => tr.error);
+  wrapToolCall: async (toolCall, handler) => {
+    const result = await handler(toolCall);
+    if (result.errorDetails?.kind !== 'validation') {
+      return result;
+    }
     
-    for (const toolError of toolErrors) {
-      const toolCall = runtime.toolCalls.find(tc => tc.id === toolError.id);
-      if (!toolCall || state.fixedCalls[toolCall.id]) continue;
-      
-      // Auto-fix common errors
-      let fixedArgs = { ...toolCall.args };
-      let canAutoFix = false;
+    // Auto-fix common errors
+    let fixedArgs = { ...toolCall.args };
+    let canAutoFix = false;
+    
+    for (const issue of result.errorDetails.issues ?? []) {
+      const field = issue.path.at(-1);
+      if (typeof field !== 'string') continue;
       
       // Example: Fix missing required fields
-      if (toolError.error?.includes('Required field')) {
-        const fieldMatch = toolError.error.match(/field[s]? (.+) (?:is|are) required/i);
-        if (fieldMatch && fieldMatch[1]) {
-          const fields = fieldMatch[1].split(',').map(f => f.trim());
-          for (const field of fields) {
-            if (field === 'email') {
-              fixedArgs.email = 'user@example.com';
-              canAutoFix = true;
-            } else if (field === 'notifications') {
-              fixedArgs.notifications = true;
-              canAutoFix = true;
-            }
-          }
+      if (issue.code === 'invalid_type' && issue.input === undefined) {
+        if (field === 'email') {
+          fixedArgs.email = 'user@example.com';
+          canAutoFix = true;
+        } else if (field === 'notifications') {
+          fixedArgs.notifications = true;
+          canAutoFix = true;
         }
       }
       
-      // Example: Fix enum values
-      if (toolError.error?.includes('Expected one of')) {
-        const enumMatch = toolError.error.match(/Expected one of \[(.+)\]/);
-        if (enumMatch && enumMatch[1]) {
-          const validValues = enumMatch[1].split(',').map(v => v.trim().replace(/['"]/g, ''));
-          const fieldMatch = toolError.error.match(/for field (\w+)/);
-          if (fieldMatch && fieldMatch[1] && validValues.length > 0) {
-            fixedArgs[fieldMatch[1]] = validValues[0];
-            canAutoFix = true;
-          }
+      // Example: Fix enum values, also in nested objects
+      if (issue.code === 'invalid_value' && issue.values.length > 0) {
+        let target = fixedArgs;
+        for (const key of issue.path.slice(0, -1)) {
+          target = target[key as string] = { ...target[key as string] };
         }
-      }
-      
-      if (canAutoFix) {
-        // Store that we've fixed this call
-        // Note: We can't directly modify toolCalls in state, we need to handle this differently
-        // For now, we'll jump back to model with instructions to retry with fixed args
-        return controls.jumpTo('model', {
-          fixedCalls: {
-            ...state.fixedCalls,
-            [toolCall.id]: true,
-          },
-          messages: [
-            ...state.messages,
-            new BaseMessage('system',
-              `Tool ${toolCall.name} failed. Please retry with these corrected arguments:\n` +
-              `${JSON.stringify(fixedArgs, null, 2)}`
-            )
-          ]
-        });
+        target[field] = issue.values[0];
+        canAutoFix = true;
       }
     }
     
-    return undefined;
+    // Run the tool again with the fixed arguments, the model only sees the outcome
+    return canAutoFix ? handler({ ...toolCall, args: fixedArgs }) : result;
   },
 });
 
@@ -151,7 +117,7 @@ export const retryWithContextMiddleware = createMiddleware({
     includeErrorDetails: z.boolean().default(true),
   }),
   
-  afterModel: async (state, runtime, controls) => {
+  afterTools: async (state, runtime, controls) => {
     const toolErrors = runtime.toolResults.filter(tr => tr.error);
     
     for (const toolError of toolErrors) {
@@ -159,9 +125,7 @@ export const retryWithContextMiddleware = createMiddleware({
       if (!toolCall) continue;
       
       // Check if it's a recoverable error (network, temporary failures)
-      if (toolError.error?.includes('Network') || 
-          toolError.error?.includes('timeout') ||
-          toolError.error?.includes('temporarily')) {
+      if (toolError.errorDetails?.retryable) {
         
         const errorDetails = runtime.context.includeErrorDetails 
           ? `\n\nError details: ${toolError.error}\nOriginal arguments: ${JSON.stringify(toolCall.args, null, 2)}`
@@ -250,7 +214,7 @@ const getWeather = tool(
     const { city } = input as { city: string };
     // Simulate network issues 40% of the time
     if (Math.random() < 0.4) {
-      throw new Error('Network timeout: Unable to reach weather service');
+      throw new ToolError('network', 'Network timeout: Unable to reach weather service');
     }
     
     return { 
@@ -271,7 +235,26 @@ const getWeather = tool(
 
 // Example 1: AI Fix Arguments Middleware
 console.log('=== Example 1: AI Fix Arguments Strategy ===');
+const validProfile = {
+  userId: '550e8400-e29b-41d4-a716-446655440000',
+  age: 25,
+  email: 'user@example.com',
+  preferences: { theme: 'dark', notifications: true },
+};
+
 const agent1 = createAgent({
+  // Scripted model responses to keep the example offline
+  model: new FakeModel([
+    {
+      content: 'Updating the profile.',
+      toolCalls: [{ id: 'call_1', name: 'updateUserProfile', args: { ...validProfile, userId: 'not-a-uuid', age: 15, email: 'invalid-email' } }],
+    },
+    {
+      content: 'Retrying with corrected arguments.',
+      toolCalls: [{ id: 'call_2', name: 'updateUserProfile', args: validProfile }],
+    },
+    'The profile was updated with corrected values.',
+  ]),
   middlewares: [aiFixArgumentsMiddleware] as const,
   tools: [updateUserProfile],
 });
@@ -282,11 +265,23 @@ const result1 = await agent1.invoke(
   },
   { maxRetries: 2 }
 );
-console.log('AI Fix Result - Attempts:', result1.errorAttempts);
+console.log('AI Fix Result - Messages:', result1.messages.length);
 
 // Example 2: Auto Fix Arguments Middleware  
 console.log('\n=== Example 2: Auto Fix Arguments Strategy ===');
 const agent2 = createAgent({
+  // The theme is not a valid option and the email is missing, both get fixed automatically
+  model: new FakeModel([
+    {
+      content: 'Updating the profile.',
+      toolCalls: [{
+        id: 'call_1',
+        name: 'updateUserProfile',
+        args: { userId: validProfile.userId, age: 25, preferences: { theme: 'blue', notifications: true } },
+      }],
+    },
+    'The profile was updated.',
+  ]),
   middlewares: [autoFixArgumentsMiddleware] as const,
   tools: [updateUserProfile],
 });
@@ -297,11 +292,24 @@ const result2 = await agent2.invoke(
   },
   {}
 );
-console.log('Auto Fix Result - Fixed calls:', result2.fixedCalls);
+console.log('Auto Fix Result - Messages:', result2.messages.length);
 
 // Example 3: Retry with Context Middleware
 console.log('\n=== Example 3: Retry with Context Strategy ===');
+// Every tool call takes one scripted response, whether it fails and the model
+// is asked again or it succeeds and the model continues
+const weatherCall = (id: string) => ({
+  content: 'Checking the weather.',
+  toolCalls: [{ id, name: 'getWeather', args: { city: 'New York' } }],
+});
+
 const agent3 = createAgent({
+  model: new FakeModel([
+    weatherCall('call_1'),
+    weatherCall('call_2'),
+    weatherCall('call_3'),
+    'Here is the current weather in New York.',
+  ]),
   middlewares: [retryWithContextMiddleware] as const,
   tools: [getWeather],
 });
@@ -317,6 +325,17 @@ console.log('Retry Context Result - History:', result3.retryHistory.length, 'att
 // Example 4: Combined middlewares for complex scenarios
 console.log('\n=== Example 4: Combined Strategies ===');
 const agent4 = createAgent({
+  model: new FakeModel([
+    {
+      content: 'Updating the profile and checking the weather.',
+      toolCalls: [
+        { id: 'call_1', name: 'updateUserProfile', args: validProfile },
+        { id: 'call_2', name: 'getWeather', args: { city: 'New York' } },
+      ],
+    },
+    weatherCall('call_3'),
+    'The profile is updated and here is the weather in New York.',
+  ]),
   middlewares: [aiFixArgumentsMiddleware, retryWithContextMiddleware] as const,
   tools: [updateUserProfile, processUserData, getWeather],
 });
@@ -327,4 +346,4 @@ const result4 = await agent4.invoke(
   },
   { maxRetries: 2, includeErrorDetails: true }
 );
-console.log('Combined Result - Errors handled:', Object.keys(result4.errorAttempts).length);
\ No newline at end of file
+console.log('Combined Result - Errors handled:', result4.retryHistory.length);
\ No newline at end of file
@@ -1,5 +1,31 @@
 import { z } from 'zod';
-import { createMiddleware, BaseMessage } from '../agent.js';
+import { createMiddleware, BaseMessage, ContentBlock, getMessageText, LanguageModelLike } from '../agent.js';
+import { countTokens, truncateToTokens } from '../tokenizer.js';
+import { FakeModel } from '../model.js';
+
+/**
+ * Cuts the text of a message down to `maxTokens` tokens of `model`. Only text
+ * blocks are shortened, tool use and image blocks are kept, and the copy keeps
+ * the message's class.
+ */
+function truncateMessage(msg: BaseMessage, maxTokens: number, model?: string | LanguageModelLike): BaseMessage {
+  if (countTokens(getMessageText(msg), model) <= maxTokens) {
+    return msg;
+  }
+
+  let remaining = maxTokens;
+  const content = typeof msg.content === 'string'
+    ? truncateToTokens(msg.content, maxTokens, model)
+    : msg.content.flatMap((block): ContentBlock[] => {
+      if (block.type !== 'text') {
+        return [block];
+      }
+      const text = truncateToTokens(block.text, remaining, model);
+      remaining -= countTokens(text, model);
+      return text === '' ? [] : [{ ...block, text }];
+    });
+  return Object.assign(Object.create(Object.getPrototypeOf(msg)), msg, { content });
+}
 
 /**
  * Trimming middleware - keeps conversation history within limits
@@ -20,11 +46,9 @@ export const trimmingMiddleware = createMiddleware({
     const messages = options.messages || state.messages;
     const trimmedMessages = messages.slice(-runtime.context.maxMessages);
     
-    // Optionally trim each message content to max tokens (simplified char count)
-    const finalMessages = trimmedMessages.map(msg => ({
-      ...msg,
-      content: msg.content.substring(0, runtime.context.maxTokensPerMessage)
-    }));
+    // Trim the text of messages that are too long, counted with the tokenizer of the call's model
+    const maxTokens = runtime.context.maxTokensPerMessage;
+    const finalMessages = trimmedMessages.map(msg => truncateMessage(msg, maxTokens, options.model));
     
     return {
       ...options,
@@ -37,6 +61,8 @@ export const trimmingMiddleware = createMiddleware({
 import { createAgent } from '../agent.js';
 
 const agent = createAgent({
+  // Scripted model response to keep the example offline
+  model: new FakeModel(['Hi! Only the most recent messages are sent to me.']),
   middlewares: [trimmingMiddleware] as const
 });
 
@@ -49,4 +75,6 @@ const result = await agent.invoke(
     maxMessages: 10,
     maxTokensPerMessage: 500,
   }
-);
\ No newline at end of file
+);
+
+console.log('Answer:', getMessageText(result.messages.at(-1)!));
\ No newline at end of file
@@ -1,5 +1,5 @@
 import { z } from 'zod';
-import { createMiddleware, createAgent, BaseMessage, ToolCall, ToolResult, Controls } from '../agent.js';
+import { createMiddleware, createAgent, BaseMessage, ToolCall, ToolResult, Controls, getMessageText } from '../agent.js';
 
 /**
  * JSON Patch operation types based on RFC 6902
@@ -166,7 +166,7 @@ Example patch format:
       if (lastMessage && lastMessage.role === 'assistant') {
         try {
           // Extract JSON patch from response
-          const patchMatch = lastMessage.content.match(/\[[\s\S]*\]/);
+          const patchMatch = getMessageText(lastMessage).match(/\[[\s\S]*\]/);
           if (patchMatch) {
             const patches = JSON.parse(patchMatch[0]) as JsonPatchOp[];
             
@@ -247,10 +247,8 @@ Example patch format:
       const toolCall = runtime.toolCalls.find(tc => tc.id === toolError.id);
       if (!toolCall) continue;
       
-      // Check if this is a validation error (simple heuristic)
-      if (toolError.error?.includes('validation') || 
-          toolError.error?.includes('required') ||
-          toolError.error?.includes('invalid')) {
+      // Check if this is a validation error
+      if (toolError.errorDetails?.kind === 'validation') {
         
         // Start retry process using jumpTo
         if (runtime.context.verbose) {
@@ -263,7 +261,7 @@ Example patch format:
               toolCallId: toolCall.id,
               toolName: toolCall.name,
               attempt: 0,
-              error: toolError.error,
+              error: toolError.errorDetails.message,
               success: false,
             }
           ],
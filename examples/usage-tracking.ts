@@ -1,5 +1,6 @@
 import { z } from 'zod';
 import { createMiddleware, createAgent, BaseMessage } from '../agent.js';
+import { FakeModel } from '../model.js';
 
 /**
  * Simple usage tracking middleware that tracks:
@@ -32,11 +33,12 @@ export const usageTrackingMiddleware = createMiddleware({
     };
   },
   afterModel: (state, runtime, controls) => {
-    // Update token usage
+    // Add the usage of this model call, runtime.tokenUsage already is the total of the run
+    const callUsage = runtime.lastCallUsage ?? { inputTokens: 0, outputTokens: 0, totalTokens: 0 };
     const updatedUsage = {
       ...state.usage,
-      totalInputTokens: state.usage.totalInputTokens + runtime.tokenUsage.inputTokens,
-      totalOutputTokens: state.usage.totalOutputTokens + runtime.tokenUsage.outputTokens,
+      totalInputTokens: state.usage.totalInputTokens + callUsage.inputTokens,
+      totalOutputTokens: state.usage.totalOutputTokens + callUsage.outputTokens,
     };
     
     // Track tool calls
@@ -47,8 +49,16 @@ export const usageTrackingMiddleware = createMiddleware({
     
     // Log current usage
     console.log(`[Usage] Model call #${updatedUsage.modelCalls}`);
-    console.log(`[Usage] Tokens - Input: ${runtime.tokenUsage.inputTokens}, Output: ${runtime.tokenUsage.outputTokens}`);
+    console.log(
+      `[Usage] Tokens - Input: ${callUsage.inputTokens}, Output: ${callUsage.outputTokens}` +
+      (callUsage.estimated ? ' (estimated)' : '')
+    );
+    console.log(
+      `[Usage] Cache - Read: ${callUsage.cacheReadTokens ?? 0}, Write: ${callUsage.cacheWriteTokens ?? 0}, ` +
+      `Reasoning: ${callUsage.reasoningTokens ?? 0}`
+    );
     console.log(`[Usage] Total - Input: ${updatedUsage.totalInputTokens}, Output: ${updatedUsage.totalOutputTokens}`);
+    console.log(`[Usage] Run total: ${runtime.tokenUsage.totalTokens} tokens, $${runtime.cost.totalCost.toFixed(6)}`);
     
     if (runtime.toolCalls.length > 0) {
       console.log(`[Usage] Tool calls:`, runtime.toolCalls.map(tc => tc.name).join(', '));
@@ -63,8 +73,38 @@ export const usageTrackingMiddleware = createMiddleware({
   },
 });
 
+// Tools the scripted model calls
+const calculate = {
+  name: 'calculate',
+  description: 'Adds two numbers',
+  schema: z.object({ a: z.number(), b: z.number() }),
+  invoke: async ({ a, b }: { a: number; b: number }) => a + b,
+};
+const search = {
+  name: 'search',
+  description: 'Searches the web',
+  schema: z.object({ query: z.string() }),
+  invoke: async ({ query }: { query: string }) => `Top result for "${query}": an introduction to AI.`,
+};
+
 // Example usage
 const trackingAgent = createAgent({
+  // Scripted model responses to keep the example offline, the last one reports
+  // no usage so its tokens are estimated
+  model: new FakeModel([
+    {
+      content: 'Let me calculate that.',
+      toolCalls: [{ id: 'call_1', name: 'calculate', args: { a: 123, b: 456 } }],
+      usage: { inputTokens: 120, outputTokens: 20, totalTokens: 140 },
+    },
+    {
+      content: 'The sum is 579. Now let me search.',
+      toolCalls: [{ id: 'call_2', name: 'search', args: { query: 'AI' } }],
+      usage: { inputTokens: 160, outputTokens: 25, totalTokens: 185, cacheReadTokens: 120 },
+    },
+    'The sum of 123 and 456 is 579, and AI is the field of building systems that learn from data.',
+  ]),
+  tools: [calculate, search],
   middlewares: [usageTrackingMiddleware] as const
 });
 
@@ -82,3 +122,4 @@ console.log(`Total input tokens: ${result.usage.totalInputTokens}`);
 console.log(`Total output tokens: ${result.usage.totalOutputTokens}`);
 console.log(`Total tokens: ${result.usage.totalInputTokens + result.usage.totalOutputTokens}`);
 console.log(`Tool usage:`, result.usage.toolCalls);
+console.log(`Total cost: $${result.__cost__.run.totalCost.toFixed(6)}`);
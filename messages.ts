@@ -0,0 +1,172 @@
+import { randomUUID } from "node:crypto";
+import type { TokenUsage, ToolCall } from "./agent.js";
+
+export type MessageRole = 'user' | 'assistant' | 'system' | 'tool';
+
+// Content blocks
+
+export interface TextBlock {
+    type: 'text';
+    text: string;
+}
+
+export interface ImageBlock {
+    type: 'image';
+    /** Web URL or `data:` URL of the image */
+    url: string;
+    mimeType?: string;
+}
+
+/**
+ * A tool call as part of the content of an assistant message.
+ */
+export interface ToolUseBlock {
+    type: 'tool_use';
+    id: string;
+    name: string;
+    input: Record<string, any>;
+}
+
+/**
+ * The result of a tool call as part of the content of a message.
+ */
+export interface ToolResultBlock {
+    type: 'tool_result';
+    /** Id of the `tool_use` block this is the result of */
+    toolUseId: string;
+    content: string | (TextBlock | ImageBlock)[];
+    isError?: boolean;
+}
+
+export type ContentBlock = TextBlock | ImageBlock | ToolUseBlock | ToolResultBlock;
+
+/**
+ * Content of a message, either plain text or a list of typed blocks.
+ */
+export type MessageContent = string | ContentBlock[];
+
+/**
+ * Optional fields of every message.
+ */
+export interface MessageFields {
+    /** Stable id of the message, generated if not given */
+    id?: string;
+    /** Name of the participant (or tool) the message is from */
+    name?: string;
+}
+
+// Base message class for chat
+export class BaseMessage {
+    /**
+     * Kind of message. Unlike the class it survives serialization, so the
+     * `is*Message` guards check this.
+     */
+    type = 'base';
+    /**
+     * Identifies the message in the conversation. An update with a message of
+     * the same id replaces it.
+     */
+    id: string;
+    // Optional fields are declared only, so they stay absent until set and
+    // messages compare equal after a trip through JSON
+    declare name?: string;
+
+    constructor(
+        public role: MessageRole,
+        public content: MessageContent,
+        fields: MessageFields = {}
+    ) {
+        this.id = fields.id ?? randomUUID();
+        if (fields.name !== undefined) {
+            this.name = fields.name;
+        }
+    }
+}
+
+export interface AIMessageFields extends MessageFields {
+    toolCalls?: ToolCall[];
+    usage?: TokenUsage;
+}
+
+// Message generated by a model
+export class AIMessage extends BaseMessage {
+    type = 'ai';
+    /** Tool calls the model requested with this message */
+    toolCalls: ToolCall[];
+    /** Token usage of the model call that generated this message */
+    declare usage?: TokenUsage;
+
+    constructor(role: MessageRole, content: MessageContent, fields: AIMessageFields = {}) {
+        super(role, content, fields);
+        this.toolCalls = fields.toolCalls ?? [];
+        if (fields.usage) {
+            this.usage = fields.usage;
+        }
+    }
+}
+
+export interface ToolMessageFields extends MessageFields {
+    toolCallId?: string;
+    status?: 'success' | 'error';
+}
+
+// Message answering a tool call of an `AIMessage`
+export class ToolMessage extends BaseMessage {
+    type = 'tool';
+    /** Id of the `ToolCall` this message answers */
+    declare toolCallId?: string;
+    /** Whether the tool call succeeded */
+    status: 'success' | 'error';
+
+    constructor(role: MessageRole, content: MessageContent, fields: ToolMessageFields = {}) {
+        super(role, content, fields);
+        if (fields.toolCallId !== undefined) {
+            this.toolCallId = fields.toolCallId;
+        }
+        this.status = fields.status ?? 'success';
+    }
+}
+
+export class AssistantMessage extends BaseMessage {
+    type = 'assistant';
+}
+
+export class UserMessage extends BaseMessage {
+    type = 'user';
+}
+
+export class SystemMessage extends BaseMessage {
+    type = 'system';
+}
+
+// Type guards, they check `type` so they also work for deserialized messages.
+// Plain `BaseMessage`s (type `'base'`) are told apart by their `role`.
+
+export function isAIMessage(message: BaseMessage | undefined): message is AIMessage {
+    return message?.type === 'ai';
+}
+
+export function isToolMessage(message: BaseMessage | undefined): message is ToolMessage {
+    return message?.type === 'tool';
+}
+
+export function isUserMessage(message: BaseMessage | undefined): message is UserMessage {
+    return message?.type === 'user' || (message?.type === 'base' && message.role === 'user');
+}
+
+export function isSystemMessage(message: BaseMessage | undefined): message is SystemMessage {
+    return message?.type === 'system' || (message?.type === 'base' && message.role === 'system');
+}
+
+/**
+ * Returns the text of a message, joining the text blocks of block content.
+ */
+export function getMessageText(message: Pick<BaseMessage, 'content'>): string {
+    if (typeof message.content === 'string') {
+        return message.content;
+    }
+    return message.content
+        .filter((block): block is TextBlock => block.type === 'text')
+        .map(block => block.text)
+        .join('');
+}
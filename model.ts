@@ -0,0 +1,130 @@
+import type {
+    LanguageModelLike,
+    ModelCallOptions,
+    ModelRequest,
+    ModelResponse,
+    TokenUsage,
+    ToolCall,
+} from "./agent.js";
+import { AIMessage } from "./messages.js";
+
+/**
+ * Creates a model instance for a model name of a provider,
+ * e.g. `gpt-4o` for the `openai` provider.
+ */
+export type ModelFactory = (modelName: string) => LanguageModelLike;
+
+/**
+ * Resolves model ids like `"openai:gpt-4o"` into model instances using the
+ * factory registered for the provider part of the id.
+ */
+export class ModelRegistry {
+    #providers = new Map<string, ModelFactory>();
+    #models = new Map<string, LanguageModelLike>();
+
+    /**
+     * Registers the factory used for all model ids of `provider`.
+     */
+    register(provider: string, factory: ModelFactory): this {
+        this.#providers.set(provider, factory);
+        // Drop instances created by a previously registered factory
+        for (const modelId of this.#models.keys()) {
+            if (modelId.startsWith(`${provider}:`)) {
+                this.#models.delete(modelId);
+            }
+        }
+        return this;
+    }
+
+    has(provider: string): boolean {
+        return this.#providers.has(provider);
+    }
+
+    /**
+     * Returns the model for an id, creating it on first use. Model instances
+     * are passed through unchanged.
+     */
+    resolve(model: string | LanguageModelLike): LanguageModelLike {
+        if (typeof model !== 'string') {
+            return model;
+        }
+
+        const cached = this.#models.get(model);
+        if (cached) {
+            return cached;
+        }
+
+        const separator = model.indexOf(':');
+        if (separator <= 0 || separator === model.length - 1) {
+            throw new Error(`Invalid model id "${model}", expected "<provider>:<model>" (e.g. "openai:gpt-4o").`);
+        }
+
+        const provider = model.slice(0, separator);
+        const factory = this.#providers.get(provider);
+        if (!factory) {
+            throw new Error(
+                `Unknown model provider "${provider}" in model id "${model}". ` +
+                `Register it with \`modelRegistry.register("${provider}", factory)\`.`
+            );
+        }
+
+        const instance = factory(model.slice(separator + 1));
+        this.#models.set(model, instance);
+        return instance;
+    }
+}
+
+/**
+ * Registry shared by all agents that don't bring their own.
+ */
+export const modelRegistry = new ModelRegistry();
+
+/**
+ * A scripted response of `FakeModel`: either the text of the assistant
+ * message or the full message content, tool calls and usage.
+ */
+export type FakeModelResponse =
+    | string
+    | {
+        content: string;
+        toolCalls?: ToolCall[];
+        usage?: TokenUsage;
+    };
+
+/**
+ * Offline model that replays scripted responses in order, for tests and
+ * examples. Every request it receives is recorded in `requests`.
+ */
+export class FakeModel implements LanguageModelLike {
+    readonly modelId: string;
+    readonly requests: ModelRequest[] = [];
+    #responses: FakeModelResponse[];
+
+    constructor(responses: FakeModelResponse[], options: { modelId?: string } = {}) {
+        this.#responses = [...responses];
+        this.modelId = options.modelId ?? 'fake:scripted';
+    }
+
+    async invoke(request: ModelRequest, options: ModelCallOptions = {}): Promise<ModelResponse> {
+        this.requests.push(request);
+
+        const next = this.#responses[this.requests.length - 1];
+        if (next === undefined) {
+            throw new Error(
+                `FakeModel received call #${this.requests.length} but only ${this.#responses.length} responses are scripted.`
+            );
+        }
+
+        const { content, toolCalls = [], usage } = typeof next === 'string' ? { content: next } : next;
+
+        // Stream the content word by word like a real model would
+        for (const chunk of content.match(/\s*\S+\s*/g) ?? []) {
+            options.onChunk?.(chunk);
+        }
+        return {
+            message: new AIMessage('assistant', content, { toolCalls, ...(usage && { usage }) }),
+            toolCalls,
+            ...(usage && { usage }),
+        };
+    }
+}
@@ -0,0 +1,122 @@
+import type { TokenUsage } from "./agent.js";
+import { addTokenUsage } from "./usage.js";
+
+/**
+ * Prices of a model in USD per million tokens. Cache rates default to the
+ * input rate, reasoning tokens are billed as output.
+ */
+export interface ModelPricing {
+    input: number;
+    output: number;
+    cacheRead?: number;
+    cacheWrite?: number;
+}
+
+/**
+ * Costs of the calls to one model.
+ */
+export interface ModelCost {
+    calls: number;
+    usage: TokenUsage;
+    /** Cost in USD, 0 if the model has no price (see `priced`) */
+    cost: number;
+    /** Whether a price was found for the model */
+    priced: boolean;
+}
+
+/**
+ * Token usage and cost of a run or a thread, broken down by model id.
+ */
+export interface CostLedger {
+    /** Cost in USD of all priced calls */
+    totalCost: number;
+    usage: TokenUsage;
+    byModel: Record<string, ModelCost>;
+}
+
+/**
+ * Cost of the run that produced a result and of its whole thread. Without a
+ * `threadId` both are the same.
+ */
+export interface CostSummary {
+    run: CostLedger;
+    thread: CostLedger;
+}
+
+/**
+ * Prices by model id (`"openai:gpt-4o"`) or provider (`"openai"`), the more
+ * specific entry wins. Pass one to `createAgent({ pricing })`.
+ */
+export class PricingTable {
+    #prices = new Map<string, ModelPricing>();
+
+    constructor(prices: Record<string, ModelPricing> = {}) {
+        for (const [modelIdOrProvider, pricing] of Object.entries(prices)) {
+            this.set(modelIdOrProvider, pricing);
+        }
+    }
+
+    set(modelIdOrProvider: string, pricing: ModelPricing): this {
+        this.#prices.set(modelIdOrProvider, pricing);
+        return this;
+    }
+
+    get(modelId: string): ModelPricing | undefined {
+        return this.#prices.get(modelId) ?? this.#prices.get(modelId.split(':')[0]!);
+    }
+
+    /**
+     * Cost in USD of a call to `modelId`, undefined if the model has no price.
+     * Cached input tokens are billed at the cache rates, the rest at the input rate.
+     */
+    cost(modelId: string, usage: TokenUsage): number | undefined {
+        const pricing = this.get(modelId);
+        if (!pricing) {
+            return undefined;
+        }
+
+        const cacheRead = usage.cacheReadTokens ?? 0;
+        const cacheWrite = usage.cacheWriteTokens ?? 0;
+        const uncachedInput = Math.max(0, usage.inputTokens - cacheRead - cacheWrite);
+        return (
+            uncachedInput * pricing.input +
+            cacheRead * (pricing.cacheRead ?? pricing.input) +
+            cacheWrite * (pricing.cacheWrite ?? pricing.input) +
+            usage.outputTokens * pricing.output
+        ) / 1_000_000;
+    }
+}
+
+/**
+ * Table used by agents that don't bring their own, empty until prices are set.
+ */
+export const pricingTable = new PricingTable();
+
+/**
+ * Returns a ledger without any calls.
+ */
+export function createCostLedger(): CostLedger {
+    return { totalCost: 0, usage: { inputTokens: 0, outputTokens: 0, totalTokens: 0 }, byModel: {} };
+}
+
+/**
+ * Adds a model call to a ledger, priced with the rates of the model that
+ * actually handled it.
+ */
+export function recordCost(ledger: CostLedger, modelId: string, usage: TokenUsage, pricing: PricingTable): CostLedger {
+    const cost = pricing.cost(modelId, usage);
+    const previous = ledger.byModel[modelId];
+    return {
+        totalCost: ledger.totalCost + (cost ?? 0),
+        usage: addTokenUsage(ledger.usage, usage),
+        byModel: {
+            ...ledger.byModel,
+            [modelId]: {
+                calls: (previous?.calls ?? 0) + 1,
+                usage: previous ? addTokenUsage(previous.usage, usage) : usage,
+                cost: (previous?.cost ?? 0) + (cost ?? 0),
+                priced: cost !== undefined,
+            },
+        },
+    };
+}
@@ -0,0 +1,141 @@
+import { randomUUID } from "node:crypto";
+import { z } from "zod";
+import type { BaseMessage } from "./messages.js";
+
+/**
+ * Combines the current value of a state field with the value a middleware
+ * returned for it.
+ */
+export type Reducer<T> = (current: T, update: T) => T;
+
+/**
+ * Registry holding the reducers attached to state schema fields with `withReducer`.
+ */
+export const reducerRegistry = z.registry<{ reducer: Reducer<any> }>();
+
+/**
+ * Attaches a reducer to a field of a middleware's `stateSchema`. Updates of
+ * the field are combined with its current value instead of replacing it.
+ *
+ * @example
+ * stateSchema: z.object({
+ *     reflections: withReducer(z.array(z.string()).default([]), append),
+ *     toolUsageCount: withReducer(z.record(z.string(), z.number()).default({}), merge),
+ * }),
+ */
+export function withReducer<TSchema extends z.ZodType>(schema: TSchema, reducer: Reducer<z.output<TSchema>>): TSchema {
+    reducerRegistry.add(schema, { reducer });
+    return schema;
+}
+
+/**
+ * Adds the items of the update to the end of the array.
+ */
+export function append<T>(current: T[] | undefined, update: T[]): T[] {
+    return [...(current ?? []), ...update];
+}
+
+// Helper to check for objects that should be merged key by key
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype;
+}
+
+/**
+ * Deep-merges the update into the current record. Nested plain objects are
+ * merged as well, any other value (including arrays) replaces the current one.
+ */
+export function merge<T>(current: T | undefined, update: T): T {
+    if (!isPlainObject(current) || !isPlainObject(update)) {
+        return update;
+    }
+
+    const merged: Record<string, unknown> = { ...current };
+    for (const [key, value] of Object.entries(update)) {
+        merged[key] = merge(merged[key], value);
+    }
+    return merged as T;
+}
+
+/**
+ * Default reducer of `messages`. Messages are appended unless a message with
+ * the same id is already part of the conversation, which is then replaced in
+ * place. Messages without an id get one, so returning `[...state.messages, message]`
+ * only adds `message`.
+ */
+export function appendMessages(current: BaseMessage[] | undefined, update: BaseMessage[]): BaseMessage[] {
+    const messages = [...(current ?? [])];
+    for (const message of update) {
+        message.id ??= randomUUID();
+        const index = messages.findIndex(existing => existing.id === message.id);
+        if (index === -1) {
+            messages.push(message);
+        } else {
+            messages[index] = message;
+        }
+    }
+    return messages;
+}
+
+// Wraps a value that replaces a state field without going through its reducer
+class Overwrite<T> {
+    constructor(readonly value: T) {}
+}
+
+/**
+ * Replaces a state field with `value`, bypassing the field's reducer, e.g. to
+ * remove messages from the conversation.
+ *
+ * @example
+ * return { messages: overwrite([summaryMessage, ...recentMessages]) };
+ */
+export function overwrite<T>(value: T): T {
+    return new Overwrite(value) as unknown as T;
+}
+
+/**
+ * Returns the values of a state update with `overwrite()` wrappers removed.
+ */
+export function unwrapUpdate(update: Record<string, unknown>): Record<string, unknown> {
+    return Object.fromEntries(
+        Object.entries(update).map(([key, value]) => [key, value instanceof Overwrite ? value.value : value])
+    );
+}
+
+/**
+ * Collects the reducers attached to the fields of state schemas, `messages`
+ * always uses `appendMessages` unless a schema attaches another reducer.
+ */
+export function getReducers(schemas: (z.ZodObject<any> | undefined)[]): Map<string, Reducer<any>> {
+    const reducers = new Map<string, Reducer<any>>([['messages', appendMessages]]);
+    for (const schema of schemas) {
+        for (const [key, field] of Object.entries(schema?.shape ?? {})) {
+            const reducer = reducerRegistry.get(field as z.ZodType)?.reducer;
+            if (reducer) {
+                reducers.set(key, reducer);
+            }
+        }
+    }
+    return reducers;
+}
+
+/**
+ * Applies a state update, using the reducer of every field that has one.
+ */
+export function reduceState<TState extends Record<string, any>>(
+    state: TState,
+    update: Partial<TState>,
+    reducers: Map<string, Reducer<any>>
+): TState {
+    const next: Record<string, any> = { ...state };
+    for (const [key, value] of Object.entries(update)) {
+        const reducer = reducers.get(key);
+        if (value instanceof Overwrite) {
+            next[key] = value.value;
+        } else if (reducer && value !== undefined) {
+            next[key] = reducer(state[key], value);
+        } else {
+            next[key] = value;
+        }
+    }
+    return next as TState;
+}
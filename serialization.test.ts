@@ -0,0 +1,97 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { describe, it } from "node:test";
+import { FileCheckpointer } from "./checkpoint.js";
+import { AIMessage, ToolMessage, UserMessage } from "./messages.js";
+import { deserializeState, serializeState, STATE_FORMAT_VERSION } from "./serialization.js";
+
+// Helper to send a state through JSON like a checkpointer does
+function roundTrip(state: Record<string, any>): Record<string, any> {
+    return deserializeState(JSON.parse(JSON.stringify(serializeState(state))));
+}
+
+describe('serializeState', () => {
+    it('keeps the class of messages', () => {
+        const messages = [
+            new UserMessage('user', 'Weather?', { id: 'user' }),
+            new AIMessage('assistant', '', {
+                id: 'ai',
+                toolCalls: [{ id: 'call_1', name: 'get_weather', args: { city: 'Paris' } }],
+            }),
+            new ToolMessage('tool', 'Sunny', { id: 'tool', toolCallId: 'call_1' }),
+        ];
+
+        const restored = roundTrip({ messages });
+        assert.deepEqual(restored.messages, messages);
+        assert.ok(restored.messages[1] instanceof AIMessage);
+    });
+
+    it('restores messages that were cloned into plain objects', () => {
+        const message = new AIMessage('assistant', 'Hi', { id: 'ai' });
+
+        const restored = roundTrip({ messages: [{ ...message }] });
+        assert.ok(restored.messages[0] instanceof AIMessage);
+        assert.deepEqual(restored.messages[0], message);
+    });
+
+    it('keeps dates, maps, sets and bigints in nested state', () => {
+        const state = {
+            messages: [],
+            lastRun: new Date('2026-01-01T00:00:00.000Z'),
+            visits: new Map([['home', { count: 2n, pages: new Set(['/', '/about']) }]]),
+        };
+
+        assert.deepEqual(roundTrip(state), state);
+    });
+
+    it('keeps objects that have a $type key of their own', () => {
+        const state = {
+            messages: [],
+            message: { $type: 'message', x: 1 },
+            date: { $type: 'Date', value: 'hello' },
+            wrapped: [{ $type: 'object', value: { $type: 'Set' } }],
+            inMap: new Map([['key', { $type: 'BigInt', value: 'not a number' }]]),
+        };
+
+        assert.deepEqual(roundTrip(state), state);
+    });
+
+    it('rejects other format versions', () => {
+        assert.throws(
+            () => deserializeState({ version: STATE_FORMAT_VERSION + 1, state: {} }),
+            /Unsupported state format version/
+        );
+    });
+});
+
+describe('FileCheckpointer', () => {
+    it('keeps messages and dates in the interrupt payload and tool results', async () => {
+        const directory = await mkdtemp(path.join(tmpdir(), 'checkpoints-'));
+        try {
+            const checkpointer = new FileCheckpointer(directory);
+            const checkpoint = {
+                state: { messages: [new UserMessage('user', 'Refund order A-1001', { id: 'user' })] },
+                node: 'before_tools' as const,
+                next: 'before_tools' as const,
+                toolCalls: [],
+                offeredTools: [],
+                toolResults: [{ id: 'call_1', name: 'lookup', result: { at: new Date('2026-01-01T00:00:00.000Z') } }],
+                interrupt: {
+                    middleware: 'Approval',
+                    hook: 'beforeTools' as const,
+                    payload: { draft: new AIMessage('assistant', 'Refunding now.', { id: 'draft' }), due: new Date(0) },
+                },
+                createdAt: new Date(0).toISOString(),
+            };
+
+            await checkpointer.put('thread', checkpoint);
+            const restored = await checkpointer.get('thread');
+            assert.deepEqual(restored, checkpoint);
+            assert.ok((restored?.interrupt?.payload as { draft: unknown }).draft instanceof AIMessage);
+        } finally {
+            await rm(directory, { recursive: true, force: true });
+        }
+    });
+});
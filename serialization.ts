@@ -0,0 +1,162 @@
+import {
+    AIMessage,
+    AssistantMessage,
+    BaseMessage,
+    SystemMessage,
+    ToolMessage,
+    UserMessage,
+} from "./messages.js";
+
+/**
+ * Version of the format written by `serializeState`.
+ */
+export const STATE_FORMAT_VERSION = 1;
+
+/**
+ * JSON-compatible form of an agent state, see `serializeState`.
+ */
+export interface SerializedState {
+    version: number;
+    state: Record<string, unknown>;
+}
+
+// Message classes by their `type`, used to restore messages read from JSON
+const MESSAGE_CLASSES: Record<string, typeof BaseMessage> = {
+    ai: AIMessage,
+    assistant: AssistantMessage,
+    system: SystemMessage,
+    tool: ToolMessage,
+    user: UserMessage,
+};
+
+// Turn a message parsed from JSON back into an instance of its class
+function reviveMessage(message: Record<string, any>): BaseMessage {
+    const MessageClass = MESSAGE_CLASSES[message.type] ?? BaseMessage;
+    return Object.assign(Object.create(MessageClass.prototype), message);
+}
+
+// Helper to check for objects that are encoded key by key
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    if (typeof value !== 'object' || value === null) {
+        return false;
+    }
+    const prototype = Object.getPrototypeOf(value);
+    return prototype === Object.prototype || prototype === null;
+}
+
+// Encode the entries of a plain object one by one
+function encodeEntries(value: Record<string, unknown>): Record<string, unknown> {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, encode(entry)]));
+}
+
+// Encode a value for JSON, tagging values JSON can't represent with `$type`.
+// Objects that have a `$type` key of their own are wrapped so they aren't
+// mistaken for a tagged value.
+function encode(value: unknown): unknown {
+    if (value instanceof BaseMessage) {
+        return { $type: 'message', message: encode({ ...value }) };
+    }
+    if (value instanceof Date) {
+        return { $type: 'Date', value: value.toISOString() };
+    }
+    if (value instanceof Map) {
+        return { $type: 'Map', entries: [...value].map(([key, entry]) => [encode(key), encode(entry)]) };
+    }
+    if (value instanceof Set) {
+        return { $type: 'Set', values: [...value].map(encode) };
+    }
+    if (typeof value === 'bigint') {
+        return { $type: 'BigInt', value: value.toString() };
+    }
+    if (Array.isArray(value)) {
+        return value.map(encode);
+    }
+    if (isPlainObject(value)) {
+        return Object.hasOwn(value, '$type')
+            ? { $type: 'object', value: encodeEntries(value) }
+            : encodeEntries(value);
+    }
+    return value;
+}
+
+// Decode the entries of a plain object one by one
+function decodeEntries(value: Record<string, unknown>): Record<string, unknown> {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, decode(entry)]));
+}
+
+// Reverse `encode`
+function decode(value: unknown): unknown {
+    if (Array.isArray(value)) {
+        return value.map(decode);
+    }
+    if (!isPlainObject(value)) {
+        return value;
+    }
+
+    switch (value.$type) {
+        case 'message':
+            return reviveMessage(decode(value.message) as Record<string, any>);
+        case 'Date':
+            return new Date(value.value as string);
+        case 'Map':
+            return new Map((value.entries as [unknown, unknown][]).map(([key, entry]) => [decode(key), decode(entry)]));
+        case 'Set':
+            return new Set((value.values as unknown[]).map(decode));
+        case 'BigInt':
+            return BigInt(value.value as string);
+        case 'object':
+            return decodeEntries(value.value as Record<string, unknown>);
+    }
+    return decodeEntries(value);
+}
+
+/**
+ * Converts an agent state into a versioned, JSON-compatible object, e.g. to
+ * store it in a checkpoint or send it over HTTP. Messages keep their class,
+ * and dates, maps, sets and bigints in middleware state survive the trip.
+ * Messages in `messages` that were cloned into plain objects are restored as
+ * messages as well.
+ */
+export function serializeState(state: Record<string, any>): SerializedState {
+    const { messages, ...rest } = state;
+    return {
+        version: STATE_FORMAT_VERSION,
+        state: {
+            ...encodeEntries(rest),
+            ...(messages && {
+                messages: (messages as Record<string, unknown>[]).map(message =>
+                    encode(message instanceof BaseMessage ? message : reviveMessage(message))
+                ),
+            }),
+        },
+    };
+}
+
+/**
+ * Converts any value into the JSON-compatible form `serializeState` uses for
+ * the values of a state, e.g. an interrupt payload stored next to it.
+ */
+export function serializeValue(value: unknown): unknown {
+    return encode(value);
+}
+
+/**
+ * Restores a value written by `serializeValue`.
+ */
+export function deserializeValue<TValue = unknown>(value: unknown): TValue {
+    return decode(value) as TValue;
+}
+
+/**
+ * Restores a state written by `serializeState`.
+ */
+export function deserializeState<TState extends Record<string, any> = Record<string, any>>(
+    serialized: SerializedState
+): TState {
+    if (serialized.version !== STATE_FORMAT_VERSION) {
+        throw new Error(
+            `Unsupported state format version ${serialized.version}, expected ${STATE_FORMAT_VERSION}.`
+        );
+    }
+    return decodeEntries(serialized.state) as TState;
+}
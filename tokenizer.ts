@@ -0,0 +1,163 @@
+import type { LanguageModelLike } from "./agent.js";
+import { isAIMessage, type BaseMessage, type ContentBlock } from "./messages.js";
+
+/**
+ * Counts tokens the way a model does, e.g. backed by the model's own
+ * tokenizer library. Register one per model or provider in `tokenizerRegistry`
+ * or set it as `tokenizer` of a model instance.
+ */
+export interface Tokenizer {
+    countTokens(text: string): number;
+    /**
+     * Cuts `text` down to at most `maxTokens` tokens. Without it `truncateToTokens`
+     * searches for the longest prefix that fits using `countTokens`.
+     */
+    truncate?(text: string, maxTokens: number): string;
+}
+
+/**
+ * Fast offline tokenizer that assumes a fixed number of characters per token
+ * (4 by default, about right for English text with common tokenizers).
+ */
+export class ApproximateTokenizer implements Tokenizer {
+    #charsPerToken: number;
+
+    constructor(charsPerToken = 4) {
+        this.#charsPerToken = charsPerToken;
+    }
+
+    countTokens(text: string): number {
+        return Math.ceil(text.length / this.#charsPerToken);
+    }
+
+    truncate(text: string, maxTokens: number): string {
+        return text.slice(0, Math.max(0, maxTokens) * this.#charsPerToken);
+    }
+}
+
+/**
+ * Resolves the tokenizer of a model id, falling back to the tokenizer of its
+ * provider and then to an `ApproximateTokenizer`.
+ */
+export class TokenizerRegistry {
+    #tokenizers = new Map<string, Tokenizer>();
+    #fallback: Tokenizer;
+
+    constructor(fallback: Tokenizer = new ApproximateTokenizer()) {
+        this.#fallback = fallback;
+    }
+
+    /**
+     * Registers the tokenizer of a model id (`"openai:gpt-4o"`) or of all
+     * models of a provider (`"openai"`).
+     */
+    register(modelIdOrProvider: string, tokenizer: Tokenizer): this {
+        this.#tokenizers.set(modelIdOrProvider, tokenizer);
+        return this;
+    }
+
+    /**
+     * Returns the tokenizer for a model. A model instance's own `tokenizer`
+     * wins over registered ones.
+     */
+    resolve(model?: string | LanguageModelLike): Tokenizer {
+        if (model === undefined) {
+            return this.#fallback;
+        }
+        if (typeof model !== 'string' && model.tokenizer) {
+            return model.tokenizer;
+        }
+
+        const modelId = typeof model === 'string' ? model : model.modelId;
+        const provider = modelId.split(':')[0]!;
+        return this.#tokenizers.get(modelId) ?? this.#tokenizers.get(provider) ?? this.#fallback;
+    }
+}
+
+/**
+ * Registry used by the token helpers below.
+ */
+export const tokenizerRegistry = new TokenizerRegistry();
+
+// Tokens every message costs on top of its content (role and separators)
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+/**
+ * Counts the tokens of `text` with the tokenizer of `model`.
+ */
+export function countTokens(text: string, model?: string | LanguageModelLike): number {
+    return tokenizerRegistry.resolve(model).countTokens(text);
+}
+
+/**
+ * Cuts `text` down to at most `maxTokens` tokens of `model`.
+ */
+export function truncateToTokens(text: string, maxTokens: number, model?: string | LanguageModelLike): string {
+    const tokenizer = tokenizerRegistry.resolve(model);
+    if (tokenizer.countTokens(text) <= maxTokens) {
+        return text;
+    }
+    if (tokenizer.truncate) {
+        return tokenizer.truncate(text, maxTokens);
+    }
+
+    // Binary search for the longest prefix that fits
+    let low = 0;
+    let high = text.length;
+    while (low < high) {
+        const middle = Math.ceil((low + high) / 2);
+        if (tokenizer.countTokens(text.slice(0, middle)) <= maxTokens) {
+            low = middle;
+        } else {
+            high = middle - 1;
+        }
+    }
+    return text.slice(0, low);
+}
+
+// Text a content block adds to the prompt, tool calls and results count with their JSON
+function getBlockText(block: ContentBlock): string {
+    switch (block.type) {
+        case 'text':
+            return block.text;
+        case 'image':
+            return '';
+        case 'tool_use':
+            return JSON.stringify({ name: block.name, input: block.input });
+        case 'tool_result':
+            return typeof block.content === 'string' ? block.content : block.content.map(getBlockText).join('');
+    }
+}
+
+/**
+ * Counts the tokens `messages` take up in a call to `model`: their text,
+ * the JSON of tool calls and tool results, a small overhead per message and
+ * the `systemMessage` of the call if given. Images are not counted.
+ */
+export function countMessageTokens(
+    messages: BaseMessage[],
+    model?: string | LanguageModelLike,
+    options: { systemMessage?: string } = {}
+): number {
+    const tokenizer = tokenizerRegistry.resolve(model);
+    let tokens = options.systemMessage !== undefined
+        ? tokenizer.countTokens(options.systemMessage) + MESSAGE_OVERHEAD_TOKENS
+        : 0;
+
+    for (const message of messages) {
+        const text = typeof message.content === 'string'
+            ? message.content
+            : message.content.map(getBlockText).join('');
+        // Tool calls that are part of the content are already counted
+        const toolCalls = (isAIMessage(message) ? message.toolCalls : []).filter(toolCall =>
+            typeof message.content === 'string'
+            || !message.content.some(block => block.type === 'tool_use' && block.id === toolCall.id)
+        );
+        tokens += tokenizer.countTokens(text) + MESSAGE_OVERHEAD_TOKENS;
+        if (toolCalls.length > 0) {
+            tokens += tokenizer.countTokens(JSON.stringify(toolCalls));
+        }
+    }
+    return tokens;
+}
+
@@ -0,0 +1,372 @@
+import { z } from "zod";
+import type {
+    ClientTool,
+    ServerTool,
+    ToolCall,
+    ToolCallHandler,
+    ToolErrorDetails,
+    ToolErrorKind,
+    ToolResult,
+} from "./agent.js";
+import { ToolMessage } from "./messages.js";
+
+/**
+ * Thrown when a tool is referenced by a name no registry knows about.
+ */
+export class UnknownToolError extends Error {
+    constructor(
+        public readonly toolName: string,
+        public readonly availableTools: string[]
+    ) {
+        super(
+            `Unknown tool "${toolName}". ` +
+            (availableTools.length > 0
+                ? `Registered tools: ${availableTools.join(', ')}.`
+                : 'No tools are registered.')
+        );
+        this.name = 'UnknownToolError';
+    }
+}
+
+// Kinds of errors that are worth retrying unless a tool says otherwise
+const RETRYABLE_KINDS: ToolErrorKind[] = ['timeout', 'network'];
+
+/**
+ * Error tools can throw to describe why they failed. The tools node copies
+ * kind, retryability and issues into `ToolResult.errorDetails`.
+ *
+ * @example
+ * throw new ToolError('network', 'Weather service unreachable');
+ * throw new ToolError('permission', 'Cannot delete files outside the workspace', { retryable: false });
+ */
+export class ToolError extends Error {
+    readonly kind: ToolErrorKind;
+    readonly retryable: boolean;
+    readonly issues: z.core.$ZodIssue[] | undefined;
+
+    constructor(
+        kind: ToolErrorKind,
+        message: string,
+        options: { retryable?: boolean; issues?: z.core.$ZodIssue[]; cause?: unknown } = {}
+    ) {
+        super(message, { cause: options.cause });
+        this.name = 'ToolError';
+        this.kind = kind;
+        this.retryable = options.retryable ?? RETRYABLE_KINDS.includes(kind);
+        this.issues = options.issues;
+    }
+}
+
+// Error codes of failed network requests in Node.js
+const NETWORK_ERROR_CODES = ['ECONNREFUSED', 'ECONNRESET', 'ENOTFOUND', 'EAI_AGAIN', 'EPIPE', 'EHOSTUNREACH'];
+
+// Describe anything a tool threw
+function toErrorDetails(error: unknown): ToolErrorDetails {
+    if (error instanceof ToolError) {
+        return {
+            kind: error.kind,
+            message: error.message,
+            retryable: error.retryable,
+            ...(error.issues && { issues: error.issues }),
+        };
+    }
+    if (!(error instanceof Error)) {
+        return { kind: 'unknown', message: String(error), retryable: false };
+    }
+
+    const code = (error as Error & { code?: unknown }).code;
+    let kind: ToolErrorKind = 'tool-thrown';
+    if (error.name === 'TimeoutError' || code === 'ETIMEDOUT') {
+        kind = 'timeout';
+    } else if (typeof code === 'string' && NETWORK_ERROR_CODES.includes(code)) {
+        kind = 'network';
+    } else if (code === 'EACCES' || code === 'EPERM') {
+        kind = 'permission';
+    }
+    return { kind, message: error.message, retryable: RETRYABLE_KINDS.includes(kind) };
+}
+
+// Name a tool is registered under; server tools may only have a type
+function getToolName(tool: ClientTool | ServerTool): string | undefined {
+    return tool.name ?? ('type' in tool && typeof tool.type === 'string' ? tool.type : undefined);
+}
+
+/**
+ * Maps tool names to tool instances so agents and middlewares can refer to
+ * tools by name. A registry can have a parent it falls back to for lookups,
+ * which is how every agent layers its own tools over a shared registry.
+ */
+export class ToolRegistry {
+    #tools = new Map<string, ClientTool | ServerTool>();
+    #parent: ToolRegistry | undefined;
+
+    constructor(tools: (ClientTool | ServerTool)[] = [], parent?: ToolRegistry) {
+        this.#parent = parent;
+        for (const tool of tools) {
+            this.register(tool);
+        }
+    }
+
+    /**
+     * Registers a tool under its name. Registering a different tool under a
+     * name that is already taken throws.
+     */
+    register(tool: ClientTool | ServerTool): this {
+        const name = getToolName(tool);
+        if (!name) {
+            throw new Error('Cannot register a tool without a name.');
+        }
+
+        const existing = this.#tools.get(name);
+        if (existing && existing !== tool) {
+            throw new Error(`A different tool is already registered as "${name}".`);
+        }
+
+        this.#tools.set(name, tool);
+        return this;
+    }
+
+    get(name: string): ClientTool | ServerTool | undefined {
+        return this.#tools.get(name) ?? this.#parent?.get(name);
+    }
+
+    has(name: string): boolean {
+        return this.get(name) !== undefined;
+    }
+
+    /**
+     * Names of all tools known to this registry and its parents.
+     */
+    names(): string[] {
+        return [...new Set([...this.#tools.keys(), ...(this.#parent?.names() ?? [])])];
+    }
+
+    /**
+     * Resolves tool names to the registered tools, tool instances are passed
+     * through unchanged. Throws an `UnknownToolError` for unknown names.
+     */
+    resolve(tools: (string | ClientTool | ServerTool)[]): (ClientTool | ServerTool)[] {
+        return tools.map(tool => {
+            if (typeof tool !== 'string') {
+                return tool;
+            }
+
+            const resolved = this.get(tool);
+            if (!resolved) {
+                throw new UnknownToolError(tool, this.names());
+            }
+            return resolved;
+        });
+    }
+}
+
+/**
+ * Registry shared by all agents that don't bring their own.
+ */
+export const toolRegistry = new ToolRegistry();
+
+/**
+ * Whether a tool's schema is a zod schema, tools may also describe their
+ * input with JSON schema.
+ */
+export function isZodSchema(schema: ClientTool['schema']): schema is z.ZodType {
+    return typeof (schema as z.ZodType | undefined)?.safeParseAsync === 'function';
+}
+
+// Helper to turn a tool's return value into message content
+function stringifyResult(result: unknown): string {
+    if (typeof result === 'string') {
+        return result;
+    }
+    try {
+        return JSON.stringify(result) ?? String(result);
+    } catch {
+        return String(result);
+    }
+}
+
+// Helper to record a failed tool call
+function failedResult(toolCall: ToolCall, errorDetails: ToolErrorDetails): ToolResult {
+    return {
+        id: toolCall.id,
+        name: toolCall.name,
+        result: undefined,
+        error: errorDetails.message,
+        errorDetails,
+    };
+}
+
+// Helper to find the client tool a call refers to
+function findTool(tools: (ClientTool | ServerTool)[], name: string): ClientTool | undefined {
+    return tools.find((t): t is ClientTool => typeof t.invoke === 'function' && t.name === name);
+}
+
+// Run a single tool call; failures are recorded in the result and never thrown
+async function executeToolCall(toolCall: ToolCall, tool: ClientTool | undefined): Promise<ToolResult> {
+    const fail = (errorDetails: ToolErrorDetails) => failedResult(toolCall, errorDetails);
+
+    if (!tool) {
+        return fail({ kind: 'validation', message: `Tool "${toolCall.name}" not found`, retryable: false });
+    }
+
+    let args = toolCall.args;
+    if (isZodSchema(tool.schema)) {
+        const parsed = await tool.schema.safeParseAsync(args);
+        if (!parsed.success) {
+            return fail({
+                kind: 'validation',
+                message: `Invalid arguments for tool "${tool.name}":\n${z.prettifyError(parsed.error)}`,
+                retryable: false,
+                issues: parsed.error.issues,
+            });
+        }
+        args = parsed.data as Record<string, any>;
+    }
+
+    try {
+        return { id: toolCall.id, name: toolCall.name, result: await tool.invoke(args) };
+    } catch (error) {
+        return fail(toErrorDetails(error));
+    }
+}
+
+// Minimal counting semaphore used to cap concurrent tool calls
+class Semaphore {
+    #available: number;
+    #waiting: (() => void)[] = [];
+
+    constructor(limit: number) {
+        this.#available = limit;
+    }
+
+    async run<T>(fn: () => Promise<T>): Promise<T> {
+        if (this.#available > 0) {
+            this.#available--;
+        } else {
+            await new Promise<void>(resolve => this.#waiting.push(resolve));
+        }
+
+        try {
+            return await fn();
+        } finally {
+            // Hand the slot over to the next waiting call or give it back
+            const next = this.#waiting.shift();
+            if (next) {
+                next();
+            } else {
+                this.#available++;
+            }
+        }
+    }
+}
+
+/**
+ * Throws unless `limit` allows at least one call at a time, a limit below 1
+ * would make every call wait forever.
+ */
+export function checkConcurrencyLimit(limit: number | undefined, name: string): void {
+    if (limit !== undefined && !(limit >= 1)) {
+        throw new Error(`${name} must be at least 1, got ${limit}.`);
+    }
+}
+
+/**
+ * Options of the tools node
+ */
+export interface ExecuteToolCallsOptions {
+    /** Maximum number of tool calls running at the same time (default: 10) */
+    maxConcurrency?: number;
+    /** Called when a tool call starts executing */
+    onToolStart?: (toolCall: ToolCall) => void;
+    /** Called when a tool call finished, in completion order */
+    onToolResult?: (result: ToolResult) => void;
+    /**
+     * Wraps the execution of every tool call, see `IMiddleware.wrapToolCall`.
+     * Errors it throws are recorded in the result like errors of the tool.
+     */
+    wrapToolCall?: (toolCall: ToolCall, handler: ToolCallHandler) => Promise<ToolResult>;
+}
+
+/**
+ * Tools node of the agent loop: validates the arguments of every tool call
+ * against the tool's zod schema, runs the tool and answers the call with a
+ * `ToolMessage`. Invalid arguments and tool exceptions end up as `error` on
+ * the `ToolResult` (and in the message) so the model can react to them.
+ *
+ * Tool calls run concurrently, capped by `maxConcurrency` and each tool's own
+ * `maxConcurrency`. A `sequential` tool waits for all earlier calls and runs
+ * alone. Results and messages are always in the order of `toolCalls`.
+ */
+export async function executeToolCalls(
+    toolCalls: ToolCall[],
+    tools: (ClientTool | ServerTool)[],
+    options: ExecuteToolCallsOptions = {}
+): Promise<{ results: ToolResult[]; messages: ToolMessage[] }> {
+    checkConcurrencyLimit(options.maxConcurrency, '`maxConcurrency`');
+    for (const toolCall of toolCalls) {
+        const tool = findTool(tools, toolCall.name);
+        checkConcurrencyLimit(tool?.maxConcurrency, `\`maxConcurrency\` of tool "${toolCall.name}"`);
+    }
+
+    const results: ToolResult[] = new Array(toolCalls.length);
+    const agentLimit = new Semaphore(options.maxConcurrency ?? 10);
+    const toolLimits = new Map<ClientTool, Semaphore>();
+    let running: Promise<void>[] = [];
+
+    // Wrappers may change the call, so the tool is looked up again for the call they pass on
+    const handler: ToolCallHandler = call => executeToolCall(call, findTool(tools, call.name));
+
+    const execute = async (toolCall: ToolCall, tool: ClientTool | undefined) => {
+        options.onToolStart?.(toolCall);
+        let result: ToolResult;
+        if (options.wrapToolCall) {
+            try {
+                result = await options.wrapToolCall(toolCall, handler);
+            } catch (error) {
+                result = failedResult(toolCall, toErrorDetails(error));
+            }
+        } else {
+            result = await executeToolCall(toolCall, tool);
+        }
+        options.onToolResult?.(result);
+        return result;
+    };
+
+    for (const [index, toolCall] of toolCalls.entries()) {
+        const tool = findTool(tools, toolCall.name);
+
+        if (tool?.sequential) {
+            await Promise.all(running);
+            running = [];
+            results[index] = await execute(toolCall, tool);
+            continue;
+        }
+
+        let toolLimit = tool && toolLimits.get(tool);
+        if (tool && !toolLimit) {
+            toolLimit = new Semaphore(tool.maxConcurrency ?? Infinity);
+            toolLimits.set(tool, toolLimit);
+        }
+
+        // Take the tool's slot first so waiting for it doesn't block other tools
+        const run = () => agentLimit.run(() => execute(toolCall, tool));
+        running.push(
+            (toolLimit ? toolLimit.run(run) : run()).then(result => {
+                results[index] = result;
+            })
+        );
+    }
+    await Promise.all(running);
+
+    const messages = results.map(toolResult => new ToolMessage(
+        'tool',
+        toolResult.error !== undefined ? `Error: ${toolResult.error}` : stringifyResult(toolResult.result),
+        {
+            name: toolResult.name,
+            toolCallId: toolResult.id,
+            status: toolResult.error !== undefined ? 'error' : 'success',
+        }
+    ));
+
+    return { results, messages };
+}
@@ -0,0 +1,78 @@
+import { z } from "zod";
+import type { ClientTool, LanguageModelLike, ModelRequest, ModelResponse, ServerTool, TokenUsage } from "./agent.js";
+import { getMessageText } from "./messages.js";
+import { countMessageTokens, countTokens } from "./tokenizer.js";
+import { isZodSchema } from "./tools.js";
+
+/**
+ * Counts the tokens of a model call locally. Used for calls whose model
+ * doesn't report usage, see `createAgent({ tokenEstimator })`.
+ */
+export type TokenEstimator = (request: ModelRequest, response: ModelResponse, model: LanguageModelLike) => TokenUsage;
+
+// Helper to stringify values for counting, bigints become their digits and
+// values JSON can't represent count as empty
+function toJSON(value: unknown): string {
+    try {
+        return JSON.stringify(value, (_key, entry) => typeof entry === 'bigint' ? entry.toString() : entry) ?? '';
+    } catch {
+        return '';
+    }
+}
+
+// Text a tool adds to the prompt: its name, description and input JSON schema.
+// Provider tools are sent as-is.
+function getToolText(tool: ClientTool | ServerTool): string {
+    if (typeof tool.invoke !== 'function') {
+        return toJSON(tool);
+    }
+
+    const { name, description, schema } = tool as ClientTool;
+    let parameters: unknown = schema;
+    if (isZodSchema(schema)) {
+        try {
+            parameters = z.toJSONSchema(schema, { unrepresentable: 'any' });
+        } catch {
+            // Not a schema zod can convert (e.g. from another zod version), count the rest
+            parameters = undefined;
+        }
+    }
+    return toJSON({ name, description, parameters });
+}
+
+/**
+ * Default `TokenEstimator`, counts the messages, system message and tools
+ * sent and the text and tool calls received with the model's tokenizer
+ * (see `tokenizerRegistry`). Tools are counted by their name, description
+ * and the JSON schema of their input.
+ */
+export const estimateTokenUsage: TokenEstimator = (request, response, model) => {
+    const inputTokens = countMessageTokens(request.messages, model, {
+        ...(request.systemMessage !== undefined && { systemMessage: request.systemMessage }),
+    }) + request.tools.reduce((tokens, tool) => tokens + countTokens(getToolText(tool), model), 0);
+    const outputTokens = countTokens(getMessageText(response.message), model)
+        + (response.toolCalls.length > 0 ? countTokens(toJSON(response.toolCalls), model) : 0);
+    return { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens };
+};
+
+/**
+ * Adds the counts of `usage` to `total`. Breakdowns are summed as well and
+ * the sum is `estimated` if any of its parts was.
+ */
+export function addTokenUsage(total: TokenUsage, usage: TokenUsage): TokenUsage {
+    // Sum an optional breakdown, leaving it out while neither side has it
+    const sum = (key: 'cacheReadTokens' | 'cacheWriteTokens' | 'reasoningTokens') =>
+        total[key] === undefined && usage[key] === undefined
+            ? {}
+            : { [key]: (total[key] ?? 0) + (usage[key] ?? 0) };
+
+    return {
+        inputTokens: total.inputTokens + usage.inputTokens,
+        outputTokens: total.outputTokens + usage.outputTokens,
+        totalTokens: total.totalTokens + usage.totalTokens,
+        ...sum('cacheReadTokens'),
+        ...sum('cacheWriteTokens'),
+        ...sum('reasoningTokens'),
+        ...((total.estimated || usage.estimated) && { estimated: true }),
+    };
+}